@@ -0,0 +1,17 @@
+import { WebSocketServer } from "ws";
+import { createHub } from "../src/net/hub";
+import { parseClientMessage } from "../src/net/protocol";
+
+// Reference game server: rooms live in memory and every move is checked with the same rules engine the client uses.
+const port=Number(process.env.PORT??8787), hub=createHub(), wss=new WebSocketServer({port});
+
+wss.on("connection",ws=>{ const conn=hub.connect(msg=>ws.send(JSON.stringify(msg)));
+  const error=(message:string)=>ws.send(JSON.stringify({type:"error",message}));
+  // One bad frame must not take the other rooms down with it.
+  ws.on("message",data=>{ const msg=parseClientMessage(String(data)); if(!msg) return error("Unreadable message."); try{ conn.receive(msg) }catch(e){ console.error(e); error("The server could not handle that message.") } });
+  ws.on("error",e=>console.error("Connection error:",e.message));
+  ws.on("close",()=>conn.close()) });
+
+wss.on("error",e=>{ console.error("Server error:",e.message); process.exitCode=1 });
+
+wss.on("listening",()=>console.log(`Chrysalis server listening on ws://localhost:${port}`));
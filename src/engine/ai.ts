@@ -0,0 +1,15 @@
+import { deepClone, idFrom } from "./board";
+import { inMetamorphia } from "./ruleset";
+import { applyPromotionChoice, kingInCheck, legalMovesForMetamorph, legalMovesForPiece, performMove, promotionAvailable } from "./rules";
+import { searchBestMove } from "./search";
+import type { Color, GameState, PieceType, SquareId } from "./types";
+
+// Hard searches a few plies within the thinking time; Expert keeps deepening until the time runs out.
+const HARD_DEPTH=3;
+
+export function generateMoves(gs:GameState,c:Color){ const out:{from:SquareId;to:SquareId;next:GameState}[]=[]; const base=deepClone(gs); base.turn=c; for(const sq of base.board){ const o=sq.occupant; if(!o) continue; if(o.kind==='metamorph'&&o.color===c){ for(const m of legalMovesForMetamorph(base,sq)){ const n=performMove(base,sq.id,idFrom(m.f,m.r)), n2=(n.promotion&&n.promotion.color===c)?aiResolvePromotion(n,c):n; if(!n2.message||n2.winner) out.push({from:sq.id,to:idFrom(m.f,m.r),next:n2}) } } else if(o.kind==='piece'&&o.color===c){ for(const m of legalMovesForPiece(base,sq)){ const n=performMove(base,sq.id,idFrom(m.f,m.r)), n2=(n.promotion&&n.promotion.color===c)?aiResolvePromotion(n,c):n; if(!n2.message||n2.winner) out.push({from:sq.id,to:idFrom(m.f,m.r),next:n2}) } } } const safe=out.filter(mv=>!kingInCheck(mv.next,c)); if(kingInCheck(gs,c)) return safe; return safe.length?safe:out }
+const promotionSupplied=(st:GameState,c:Color,t:PieceType)=>promotionAvailable(st,c,t)&&(st.quietus[c][t]>0||st.stock[c][t]>0);
+export function aiResolvePromotion(state:GameState,color:Color){ for(const t of ['Q','R','B','N'] as PieceType[]){ if(promotionSupplied(state,color,t)) return applyPromotionChoice(state,t) } return state }
+export function evaluate(gs:GameState,forC:Color){ if(gs.winner) return gs.winner===forC?1e9:-1e9; const val:Record<PieceType,number>={K:5000,Q:900,R:500,B:330,N:320,P:100}; let score=0; for(const sq of gs.board){ const o=sq.occupant; if(o&&o.kind==='piece'){ const s=val[o.type]; score+=(o.color===forC?+s:-s); if(inMetamorphia(gs,sq.rank)) score+=(o.color===forC?4:-4) } } const my=generateMoves(gs,forC).length, op=generateMoves(gs,forC==='white'?'black':'white').length; return score+(my-op)*0.5 }
+export function pickAiMove(gs:GameState){ const {ai}=gs, c=ai.cpuPlays, moves=generateMoves(gs,c); if(!moves.length) return gs; if(ai.level==='Easy') return moves[Math.floor(Math.random()*moves.length)].next; if(ai.level==='Medium'){ let b=-Infinity, bn=moves[0].next; for(const m of moves){ const s=evaluate(m.next,c); if(s>b){b=s;bn=m.next} } return bn } const found=searchBestMove(gs,{timeMs:ai.thinkMs,maxDepth:ai.level==='Hard'?HARD_DEPTH:undefined}), pick=found&&moves.find(m=>m.from===found.from&&m.to===found.to); return (pick||moves[0]).next }
+export const aiBestPromotion=(st:GameState,c:Color):PieceType=>{ for(const t of ['Q','R','B','N'] as PieceType[]) if(promotionSupplied(st,c,t)) return t; return 'Q' };
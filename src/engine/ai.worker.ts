@@ -0,0 +1,4 @@
+import { pickAiMove } from "./ai";
+import type { GameState } from "./types";
+
+self.addEventListener("message",(e:MessageEvent<GameState>)=>self.postMessage(pickAiMove(e.data)));
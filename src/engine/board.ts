@@ -0,0 +1,8 @@
+import { DEFAULT_RULES } from "./ruleset";
+import type { ChrysalisStock, FileLetter, PieceType, RankNum, Square, SquareId } from "./types";
+
+export const FILES: FileLetter[] = ["a","b","c","d","e","f","g","h"], RANKS: RankNum[] = [1,2,3,4,5,6,7,8];
+export const idFrom=(f:number,r:number):SquareId=>`${FILES[f]}${r}` as SquareId; export const inBounds=(f:number,r:number)=>f>=0&&f<8&&r>=1&&r<=8; export function deepClone<T>(x:T):T{ return JSON.parse(JSON.stringify(x)) }
+export const INITIAL_COUNTS:ChrysalisStock={K:1,Q:1,R:2,B:2,N:2,P:8}; export const emptyStock=():ChrysalisStock=>({...INITIAL_COUNTS}); export const zeroStock=():ChrysalisStock=>({K:0,Q:0,R:0,B:0,N:0,P:0});
+
+export function createInitialBoard(layout:PieceType[],[from,to]:[number,number]=DEFAULT_RULES.metamorphia):Square[]{ const board:Square[]=[]; for(const r of RANKS) for(let f=0;f<8;f++) board.push({id:idFrom(f,r),file:f,rank:r,occupant:null}); let k=0; for(let r=from;r<=to;r++) for(let f=0;f<8;f++){ const s=board.find(sq=>sq.rank===r&&sq.file===f)!; s.blueSymbol=layout[k++] } for(const r of [1,2]) for(let f=0;f<8;f++) board.find(sq=>sq.rank===r&&sq.file===f)!.occupant={kind:"metamorph",color:"black"}; for(const r of [7,8]) for(let f=0;f<8;f++) board.find(sq=>sq.rank===r&&sq.file===f)!.occupant={kind:"metamorph",color:"white"}; return board }
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { applyPromotionChoice, formatClock, initialGame, performMove, pickAiMove, resumeClock, runClock, startClock, tickClock, timeLeft } from "./index";
+import type { GameState, TimeControl } from "./index";
+import { emptyGame, piece, put } from "./test-helpers";
+
+const timed=(control:TimeControl,gs:GameState=initialGame({seed:5})):GameState=>({...gs,clock:startClock(control)});
+
+describe("clock", ()=>{
+  it("charges the side that acted and adds its increment", ()=>{
+    let clock=runClock(startClock({kind:"increment",baseMs:60000,extraMs:2000}),"white",1000);
+    expect(timeLeft(clock,"white",4000)).toBe(57000); expect(timeLeft(clock,"black",4000)).toBe(60000);
+    clock=runClock(clock,"black",4000);
+    expect(clock.remaining).toEqual({white:59000,black:60000});
+    clock=runClock(clock,null,10000);
+    expect(clock).toMatchObject({remaining:{white:59000,black:54000},running:null,since:null});
+  });
+
+  it("lets the delay pass before counting down", ()=>{
+    const clock=runClock(startClock({kind:"delay",baseMs:60000,extraMs:5000}),"white",0);
+    expect(timeLeft(clock,"white",3000)).toBe(60000); expect(timeLeft(clock,"white",8000)).toBe(57000);
+  });
+
+  it("runs for whoever must act and counts a pending promotion against the promoting player", ()=>{
+    let gs=timed({kind:"sudden",baseMs:60000,extraMs:0},put(emptyGame("black"),{g7:piece("black","P")}));
+    gs=tickClock(gs,{...gs,selected:"g7"},0);
+    expect(gs.clock!.running).toBe("black");
+    gs=tickClock(gs,performMove(gs,"g7","g8"),1000);
+    expect(gs.turn).toBe("white"); expect(gs.clock).toMatchObject({running:"black",remaining:{black:60000}});
+    gs=tickClock(gs,applyPromotionChoice(gs,"Q"),5000);
+    expect(gs.clock).toMatchObject({running:"white",since:5000,remaining:{white:60000,black:55000}});
+  });
+
+  it("starts with the game, so a CPU moving first is charged for its thinking", ()=>{
+    const gs=resumeClock({...timed({kind:"sudden",baseMs:60000,extraMs:0}),ai:{mode:"cpu",cpuPlays:"white",level:"Easy",thinkMs:1000}},0);
+    expect(gs.clock).toMatchObject({running:"white",since:0});
+    const after=tickClock(gs,pickAiMove(gs),30000);
+    expect(after.record.moves).toHaveLength(1);
+    expect(after.clock).toMatchObject({running:"black",since:30000,remaining:{white:30000,black:60000}});
+    expect(resumeClock(after,40000)).toBe(after);
+  });
+
+  it("ends the game on a flag fall and ignores moves made after it", ()=>{
+    let gs=resumeClock(timed({kind:"sudden",baseMs:10000,extraMs:0}),0);
+    gs=tickClock(gs,performMove(gs,"e7","e6"),0);
+    const late=tickClock(gs,performMove(gs,"d2","d3"),10000);
+    expect(late).toMatchObject({winner:"white",winReason:"flag fall",clock:{running:null,remaining:{black:0}}});
+    expect(late.record.moves).toHaveLength(1);
+    expect(tickClock(gs,performMove(gs,"d2","d3"),9999).clock!.running).toBe("white");
+  });
+
+  it("formats the time left", ()=>{
+    expect([formatClock(3723000),formatClock(65000),formatClock(64001),formatClock(9340),formatClock(-5)]).toEqual(["1:02:03","1:05","1:05","0:09.3","0:00.0"]);
+  });
+});
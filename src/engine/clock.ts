@@ -0,0 +1,19 @@
+import type { ClockState, Color, TimeControl } from "./types";
+
+export const TIME_CONTROL_KINDS=["sudden","increment","delay"] as const;
+const MAX_BASE_MS=3*60*60*1000, MAX_EXTRA_MS=60*1000;
+
+export const validTimeControl=(v:any):v is TimeControl=>!!v&&typeof v==="object"&&TIME_CONTROL_KINDS.includes(v.kind)&&Number.isInteger(v.baseMs)&&v.baseMs>0&&v.baseMs<=MAX_BASE_MS&&Number.isInteger(v.extraMs)&&v.extraMs>=0&&v.extraMs<=MAX_EXTRA_MS;
+export const validClock=(v:any):v is ClockState=>!!v&&validTimeControl(v.control)&&!!v.remaining&&typeof v.remaining.white==="number"&&typeof v.remaining.black==="number"&&(v.running===null||v.running==="white"||v.running==="black")&&(v.since===null||typeof v.since==="number");
+export const timeControlLabel=(tc:TimeControl)=>{ const base=`${tc.baseMs/60000} min`; return tc.kind==="sudden"?base:tc.kind==="increment"?`${base} + ${tc.extraMs/1000} s`:`${base}, ${tc.extraMs/1000} s delay` };
+
+// A clock starts stopped; resumeClock sets it running once the game is under way.
+export const startClock=(control:TimeControl):ClockState=>({control,remaining:{white:control.baseMs,black:control.baseMs},running:null,since:null});
+// Under a delay the first extraMs of every turn are free.
+export function timeLeft(clock:ClockState,c:Color,now:number){ if(clock.running!==c||clock.since===null) return clock.remaining[c]; const spent=now-clock.since-(clock.control.kind==="delay"?clock.control.extraMs:0); return clock.remaining[c]-Math.max(0,spent) }
+// Hands the clock to the next side to act (null stops it). The side that finished is charged, plus its increment if it handed over to the opponent.
+export function runClock(clock:ClockState,next:Color|null,now:number):ClockState{ if(clock.running===next) return clock; const remaining={...clock.remaining}, c=clock.running; if(c){ remaining[c]=timeLeft(clock,c,now); if(next&&clock.control.kind==="increment") remaining[c]+=clock.control.extraMs } return {...clock,remaining,running:next,since:next?now:null} }
+export const pauseClock=(clock:ClockState):ClockState=>({...clock,running:null,since:null});
+// How long the CPU may think on the clock: a twentieth of what is left plus most of any increment or delay, never more than it asked for.
+export const moveBudget=(clock:ClockState,c:Color,now:number,wanted:number)=>Math.max(50,Math.min(wanted,Math.floor(timeLeft(clock,c,now)/20+clock.control.extraMs*0.8)));
+export function formatClock(ms:number){ const t=Math.max(0,ms); if(t<10000) return `0:0${(Math.floor(t/100)/10).toFixed(1)}`; const s=Math.ceil(t/1000), h=Math.floor(s/3600), m=Math.floor(s/60)%60, pad=(n:number)=>String(n).padStart(2,"0"); return h?`${h}:${pad(m)}:${pad(s%60)}`:`${m}:${pad(s%60)}` }
@@ -0,0 +1,84 @@
+import { INITIAL_COUNTS, idFrom } from "./board";
+import { PIECE_TYPES, mulberry32 } from "./setup";
+import type { GameState, PieceType, SquareId } from "./types";
+
+// Squares are indexed (rank-1)*8+file. A cell holds 0 when empty, otherwise color<<3|kind where kind 1 is a metamorph and 2+t a piece of PIECE_TYPES[t].
+export const K=0, Q=1, R=2, B=3, N=4, P=5, META=1;
+export const cellOf=(color:number,type:number)=>color<<3|(type+2);
+export const colorOf=(v:number)=>v>>3, typeOf=(v:number)=>(v&7)-2, isPiece=(v:number)=>(v&7)>=2;
+
+export interface FastBoard{ cells:Uint8Array; due:Int16Array; cards:Int8Array; stock:Int8Array; quietus:Int8Array; prot:Int32Array; kings:Int8Array; turn:number; ply:number; winner:number; lo:number; hi:number; grace:number; protTurns:number; kingCard:boolean; hash:number; log:number[]; frames:number[] }
+
+const rnd=mulberry32(0x4b41464b), rand32=()=>(rnd()*4294967296)|0;
+const Z_CELL=Int32Array.from({length:64*16},(_,i)=>i&15?rand32():0), Z_COUNT=Int32Array.from({length:2*12*32},rand32), Z_TURN=rand32();
+const zDue=(i:number,d:number)=>d?Math.imul((d<<6|i)^0x5bd1e995,0x9e3779b1):0, zProt=(c:number,p:number)=>p<0?0:Math.imul((p<<1|c)^0x27d4eb2f,0x85ebca6b);
+const INIT=PIECE_TYPES.map(t=>INITIAL_COUNTS[t]);
+const KNIGHT=[[1,2],[2,1],[-1,2],[-2,1],[1,-2],[2,-1],[-1,-2],[-2,-1]], KING=[[1,1],[1,0],[1,-1],[0,1],[0,-1],[-1,1],[-1,0],[-1,-1]], ROOK=[[1,0],[-1,0],[0,1],[0,-1]], BISHOP=[[1,1],[1,-1],[-1,1],[-1,-1]], QUEEN=[...ROOK,...BISHOP];
+const RAYS:Record<number,number[][]>={[Q]:QUEEN,[R]:ROOK,[B]:BISHOP};
+
+export const inBand=(b:FastBoard,i:number)=>{ const r=(i>>3)+1; return r>=b.lo&&r<=b.hi };
+export const moveFrom=(m:number)=>m&63, moveTo=(m:number)=>m>>6&63;
+export const squareId=(i:number):SquareId=>idFrom(i&7,(i>>3)+1);
+
+export function fromState(gs:GameState):FastBoard{ const b:FastBoard={cells:new Uint8Array(64),due:new Int16Array(64),cards:new Int8Array(64).fill(-1),stock:new Int8Array(12),quietus:new Int8Array(12),prot:new Int32Array(2),kings:new Int8Array(2).fill(-1),turn:gs.turn==="white"?0:1,ply:gs.moveNumber,winner:gs.winner?gs.winner==="white"?0:1:-1,lo:gs.rules.metamorphia[0],hi:gs.rules.metamorphia[1],grace:gs.rules.promotionGrace,protTurns:gs.rules.kingProtectionTurns,kingCard:gs.rules.kingCardRule,hash:0,log:[],frames:[]};
+  for(const s of gs.board){ const i=(s.rank-1)*8+s.file, o=s.occupant; if(s.blueSymbol) b.cards[i]=PIECE_TYPES.indexOf(s.blueSymbol); if(!o) continue; const c=o.color==="white"?0:1; if(o.kind==="metamorph") b.cells[i]=c<<3|META; else { b.cells[i]=cellOf(c,PIECE_TYPES.indexOf(o.type)); if(o.type==="K") b.kings[c]=i; if(o.mustReturn&&o.returnByTurn!==undefined) b.due[i]=o.returnByTurn } }
+  (["white","black"] as const).forEach((color,c)=>{ PIECE_TYPES.forEach((t,k)=>{ b.stock[c*6+k]=gs.stock[color][t]; b.quietus[c*6+k]=gs.quietus[color][t] }); b.prot[c]=gs.kingProtectedUntil[color]??-1 });
+  b.hash=fullHash(b); return b }
+
+export function fullHash(b:FastBoard){ let h=b.turn?Z_TURN:0; for(let i=0;i<64;i++) h^=Z_CELL[i*16+b.cells[i]]^zDue(i,b.due[i]); for(let k=0;k<12;k++) h^=Z_COUNT[k*32+(b.stock[k]&31)]^Z_COUNT[(12+k)*32+(b.quietus[k]&31)]; return h^zProt(0,b.prot[0])^zProt(1,b.prot[1]) }
+
+// Every write goes through these setters so unmakeMove can replay the log backwards.
+function setCell(b:FastBoard,i:number,v:number){ const old=b.cells[i]; if(old===v) return; b.log.push(0,i,old); b.hash^=Z_CELL[i*16+old]^Z_CELL[i*16+v]; writeCell(b,i,v) }
+function writeCell(b:FastBoard,i:number,v:number){ const old=b.cells[i]; if(isPiece(old)&&typeOf(old)===K&&b.kings[colorOf(old)]===i) b.kings[colorOf(old)]=-1; if(isPiece(v)&&typeOf(v)===K) b.kings[colorOf(v)]=i; b.cells[i]=v }
+function setDue(b:FastBoard,i:number,d:number){ const old=b.due[i]; if(old===d) return; b.log.push(1,i,old); b.hash^=zDue(i,old)^zDue(i,d); b.due[i]=d }
+function addStock(b:FastBoard,k:number,n:number){ const old=b.stock[k]; b.log.push(2,k,old); b.hash^=Z_COUNT[k*32+(old&31)]^Z_COUNT[k*32+((old+n)&31)]; b.stock[k]=old+n }
+function addQuietus(b:FastBoard,k:number,n:number){ const old=b.quietus[k]; b.log.push(3,k,old); b.hash^=Z_COUNT[(12+k)*32+(old&31)]^Z_COUNT[(12+k)*32+((old+n)&31)]; b.quietus[k]=old+n }
+function setProt(b:FastBoard,c:number,p:number){ const old=b.prot[c]; if(old===p) return; b.log.push(4,c,old); b.hash^=zProt(c,old)^zProt(c,p); b.prot[c]=p }
+
+export function unmakeMove(b:FastBoard){ const start=b.frames.pop()!, hash=b.frames.pop()!, ply=b.frames.pop()!, winner=b.frames.pop()!; const log=b.log; while(log.length>start){ const old=log.pop()!, i=log.pop()!, kind=log.pop()!; if(kind===0) writeCell(b,i,old); else if(kind===1) b.due[i]=old; else if(kind===2) b.stock[i]=old; else if(kind===3) b.quietus[i]=old; else b.prot[i]=old } b.turn^=1; b.ply=ply; b.winner=winner; b.hash=hash }
+
+// Mirrors performMove: landing swaps, pawn promotion (resolved the way aiResolvePromotion would), return deadlines, automatic transformations, king protection and detectWin.
+export function makeMove(b:FastBoard,m:number){ const from=m&63, to=m>>6&63, v=b.cells[from], c=colorOf(v), tv=b.cells[to], before=[b.kings[0],b.kings[1]]; b.frames.push(b.winner,b.ply,b.hash,b.log.length); let captured=-1;
+  if(isPiece(tv)){ addQuietus(b,colorOf(tv)*6+typeOf(tv),1); if(typeOf(tv)===K) captured=colorOf(tv) }
+  const d=b.due[from]; setCell(b,to,v); setCell(b,from,0); setDue(b,from,0); setDue(b,to,isPiece(v)&&d&&!inBand(b,to)?d:0);
+  const t=b.cards[to]; if(t>=0&&inBand(b,to)){ if(!isPiece(v)){ if(b.stock[c*6+t]>0){ addStock(b,c*6+t,-1); setCell(b,to,cellOf(c,t)) } } else if(typeOf(v)!==t&&b.stock[c*6+t]>0){ const cur=typeOf(v); if(b.stock[c*6+cur]<INIT[cur]) addStock(b,c*6+cur,1); addStock(b,c*6+t,-1); setCell(b,to,cellOf(c,t)) } }
+  const landed=b.cells[to], promoting=isPiece(landed)&&typeOf(landed)===P&&((c===0&&to<8)||(c===1&&to>=56));
+  b.turn^=1; b.hash^=Z_TURN; b.ply++;
+  for(let i=0;i<64;i++){ const due=b.due[i]; if(!due||colorOf(b.cells[i])!==c||b.ply<due) continue; if(!inBand(b,i)){ addQuietus(b,c*6+typeOf(b.cells[i]),1); setCell(b,i,0) } setDue(b,i,0) }
+  autoTransforms(b); syncKings(b,before);
+  b.winner=captured>=0?c:detectWin(b,c);
+  if(promoting&&b.winner<0){ const pick=promotionPick(b,c); if(pick>=0){ const k=c*6+pick; if(b.quietus[k]>0) addQuietus(b,k,-1); else addStock(b,k,-1); setCell(b,to,cellOf(c,pick)); setDue(b,to,b.ply+2*b.grace-1); autoTransforms(b); syncKings(b,[b.kings[0],b.kings[1]]) } }
+  return captured }
+
+function promotionPick(b:FastBoard,c:number){ for(const t of [Q,R,B,N]){ let active=0; for(let i=0;i<64;i++) if(b.cells[i]===cellOf(c,t)) active++; if(active<INIT[t]&&(b.quietus[c*6+t]>0||b.stock[c*6+t]>0)) return t } return -1 }
+function autoTransforms(b:FastBoard){ for(let i=(b.lo-1)*8;i<b.hi*8;i++){ const v=b.cells[i], t=b.cards[i]; if(!v||t<0) continue; const c=colorOf(v); if(!isPiece(v)){ if(b.stock[c*6+t]>0){ addStock(b,c*6+t,-1); setCell(b,i,cellOf(c,t)) } } else { const cur=typeOf(v); if(cur!==t&&b.stock[c*6+t]>0){ if(b.stock[c*6+cur]<INIT[cur]) addStock(b,c*6+cur,1); addStock(b,c*6+t,-1); setCell(b,i,cellOf(c,t)); setDue(b,i,0) } } } }
+function syncKings(b:FastBoard,before:number[]){ for(const c of [0,1]) if(b.kings[c]>=0&&before[c]<0) setProt(b,c,b.protTurns?(b.turn===c?b.ply+1:b.ply)+2*(b.protTurns-1):-1) }
+
+// Exactly the squares isSquareAttacked reports, including a pawn's forward step.
+export function attacked(b:FastBoard,t:number,by:number){ const tv=b.cells[t]; if(tv&&colorOf(tv)===by) return false; const tf=t&7, tr=t>>3, tIn=inBand(b,t), enemyPiece=isPiece(tv);
+  const hit=(f:number,r:number,type:number)=>{ if(f<0||f>7||r<0||r>7) return false; const i=r*8+f, v=b.cells[i]; return v===cellOf(by,type)&&(tIn||b.due[i]>0) };
+  for(const [df,dr] of KNIGHT) if(hit(tf+df,tr+dr,N)) return true;
+  for(const [df,dr] of KING) if(hit(tf+df,tr+dr,K)) return true;
+  const dir=by===0?-1:1; if(!tv&&tr-dir>=0&&tr-dir<8&&b.cells[(tr-dir)*8+tf]===cellOf(by,P)) return true;
+  if(enemyPiece) for(const df of [-1,1]){ const f=tf+df, r=tr-dir; if(f>=0&&f<8&&r>=0&&r<8&&b.cells[r*8+f]===cellOf(by,P)) return true }
+  if(tv&&!enemyPiece) return false;
+  for(const [df,dr] of QUEEN){ let f=tf+df, r=tr+dr, allIn=tIn; while(f>=0&&f<8&&r>=0&&r<8){ const i=r*8+f, v=b.cells[i]; if(v){ if(colorOf(v)===by&&isPiece(v)){ const type=typeOf(v); if((type===Q||(type===R&&(!df||!dr))||(type===B&&df&&dr))&&(allIn||b.due[i]>0)) return true } break } allIn=allIn&&inBand(b,i); f+=df; r+=dr } }
+  return false }
+
+function detectWin(b:FastBoard,mover:number){ const opp=mover^1, ks=b.kings[opp]; if(ks>=0&&attacked(b,ks,mover)){ let safe=false; forPieceTargets(b,ks,to=>{ if(!attacked(b,to,mover)) safe=true }); if(!safe) return mover }
+  for(const c of [0,1]){ if(b.kings[c]>=0) continue; let mobile=false; for(let i=0;i<64&&!mobile;i++){ const v=b.cells[i]; if(!v||colorOf(v)!==c) continue; if(!isPiece(v)) mobile=metamorphTarget(b,i)>=0; else if(typeOf(v)===P) forPieceTargets(b,i,()=>{ mobile=true }) } if(!mobile) return c^1 }
+  return -1 }
+
+export function metamorphTarget(b:FastBoard,i:number){ const c=colorOf(b.cells[i]), to=i+(c===0?-8:8); if(to<0||to>63||b.cells[to]) return -1; if(b.kingCard&&b.cards[to]===K&&inBand(b,to)&&b.kings[c]>=0&&inBand(b,b.kings[c])) return -1; return to }
+// The destinations legalMovesForPiece allows, in no particular order.
+export function forPieceTargets(b:FastBoard,i:number,visit:(to:number)=>void){ const v=b.cells[i], c=colorOf(v), type=typeOf(v), f0=i&7, r0=i>>3, limit=!b.due[i];
+  const canLand=(f:number,r:number)=>{ if(f<0||f>7||r<0||r>7) return -1; const to=r*8+f, o=b.cells[to]; return (!limit||inBand(b,to))&&(!o||colorOf(o)!==c)?to:-1 };
+  if(type===N||type===K){ for(const [df,dr] of type===N?KNIGHT:KING){ const to=canLand(f0+df,r0+dr); if(to>=0) visit(to) } return }
+  if(type===P){ const dir=c===0?-1:1, r=r0+dir; if(r<0||r>7) return; if(!b.cells[r*8+f0]) visit(r*8+f0); for(const df of [-1,1]){ const f=f0+df; if(f<0||f>7) continue; const o=b.cells[r*8+f]; if(isPiece(o)&&colorOf(o)!==c) visit(r*8+f) } return }
+  for(const [df,dr] of RAYS[type]){ let f=f0+df, r=r0+dr; while(f>=0&&f<8&&r>=0&&r<8){ const to=r*8+f; if(limit&&!inBand(b,to)) break; const o=b.cells[to]; if(!o) visit(to); else { if(isPiece(o)&&colorOf(o)!==c) visit(to); break } f+=df; r+=dr } } }
+
+// Moves performMove would accept for side c, before the own-king-safety filter generateMoves applies.
+export function pseudoMoves(b:FastBoard,c:number,out:number[]){ out.length=0; const ownKing=b.kings[c]>=0; for(let i=0;i<64;i++){ const v=b.cells[i]; if(!v||colorOf(v)!==c) continue; if(!isPiece(v)){ const to=metamorphTarget(b,i); if(to>=0) out.push(i|to<<6); continue } forPieceTargets(b,i,to=>{ const o=b.cells[to]; if(isPiece(o)&&typeOf(o)===K&&(!ownKing||(b.prot[colorOf(o)]>=0&&b.ply<=b.prot[colorOf(o)]))) return; out.push(i|to<<6) }) } return out }
+export const inCheck=(b:FastBoard,c:number)=>b.kings[c]>=0&&attacked(b,b.kings[c],c^1);
+
+export const pieceTypeAt=(b:FastBoard,i:number):PieceType|null=>isPiece(b.cells[i])?PIECE_TYPES[typeOf(b.cells[i])]:null;
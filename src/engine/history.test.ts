@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { applyPromotionChoice, commitState, countChanges, initialGame, performMove, redoMove, startHistory, undoMove } from "./index";
+import type { History, SquareId } from "./index";
+import { emptyGame, piece, put } from "./test-helpers";
+
+const play=(h:History,from:SquareId,to:SquareId)=>commitState(h,performMove(h.present,from,to));
+
+describe("history", ()=>{
+  it("records an undo point per move and ignores selection changes", ()=>{
+    let h=startHistory(initialGame({seed:3}));
+    h=commitState(h,{...h.present,selected:"e7"});
+    h=play(h,"e7","e6"); h=play(h,"d2","d3");
+    expect(h.past).toHaveLength(2); expect(h.past[0].selected).toBe("e7");
+    expect(commitState(h,h.present)).toBe(h);
+  });
+
+  it("undoes and redoes single moves in hot-seat play", ()=>{
+    let h=startHistory(initialGame({seed:3})); h=play(h,"e7","e6"); h=play(h,"d2","d3");
+    const live=h.present;
+    h=undoMove(h);
+    expect(h.present.record.moves).toHaveLength(1); expect(h.present.turn).toBe("black"); expect(h.future).toHaveLength(1);
+    h=redoMove(h);
+    expect(h.present.record).toEqual(live.record); expect(h.future).toHaveLength(0);
+    expect(undoMove(startHistory(live))).toEqual(startHistory(live));
+  });
+
+  it("takes back the CPU reply together with the human move", ()=>{
+    let h=startHistory(initialGame({seed:3})); h=play(h,"e7","e6"); h=play(h,"d2","d3"); h=play(h,"a7","a6"); h=play(h,"a2","a3");
+    h=undoMove(h,"black");
+    expect(h.present.record.moves).toHaveLength(2); expect(h.present.turn).toBe("white");
+    h=undoMove(h,"black");
+    expect(h.present.record.moves).toHaveLength(0);
+    h=redoMove(h,"black");
+    expect(h.present.record.moves).toHaveLength(2); expect(h.future).toHaveLength(2);
+  });
+
+  it("drops the redo line once a new move is made, and keeps the live AI settings", ()=>{
+    let h=startHistory(initialGame({seed:3})); h=play(h,"e7","e6");
+    h=commitState(h,{...h.present,ai:{...h.present.ai,mode:"cpu",cpuPlays:"white",level:"Hard"}});
+    h=undoMove(h);
+    expect(h.present.ai.level).toBe("Hard");
+    h=play(h,"a7","a6");
+    expect(h.future).toEqual([]); expect(h.present.record.moves).toEqual([{from:"a7",to:"a6"}]);
+  });
+
+  it("folds a promotion choice into the pawn move", ()=>{
+    let h=startHistory(put(emptyGame("black"),{g7:piece("black","P")}));
+    h=play(h,"g7","g8"); h=commitState(h,applyPromotionChoice(h.present,"Q"));
+    expect(h.past).toHaveLength(1);
+    h=undoMove(h);
+    expect(h.present.promotion).toBeNull(); expect(h.present.record.moves).toEqual([]);
+  });
+});
+
+describe("countChanges", ()=>{
+  it("lists Chrysalis and Quietus deltas", ()=>{
+    const gs=put(emptyGame(),{a3:piece("white","R"),a6:piece("black","B")},{a6:"Q"});
+    expect(countChanges(gs,performMove(gs,"a3","a6"))).toEqual([{pool:"stock",color:"white",type:"Q",delta:-1},{pool:"quietus",color:"black",type:"B",delta:1}]);
+  });
+});
@@ -0,0 +1,16 @@
+import { PIECE_TYPES } from "./setup";
+import type { Color, GameState, PieceType } from "./types";
+
+export interface History{ past:GameState[]; present:GameState; future:GameState[] }
+export interface CountChange{ pool:"stock"|"quietus"; color:Color; type:PieceType; delta:number }
+
+export const startHistory=(gs:GameState):History=>({past:[],present:gs,future:[]});
+
+// Only states that add a move become undo points; selections, messages and promotion choices replace the present state.
+export function commitState(h:History,next:GameState):History{ if(next===h.present) return h; if(next.record.moves.length>h.present.record.moves.length) return {past:[...h.past,h.present],present:next,future:[]}; return {...h,present:next} }
+
+const restore=(state:GameState,live:GameState):GameState=>({...state,selected:null,message:null,ai:live.ai});
+export function undoMove(h:History,cpu:Color|null=null):History{ if(!h.past.length) return h; let past=h.past, future=[h.present,...h.future], present=past[past.length-1]; past=past.slice(0,-1); while(cpu&&present.turn===cpu&&past.length){ future=[present,...future]; present=past[past.length-1]; past=past.slice(0,-1) } return {past,present:restore(present,h.present),future} }
+export function redoMove(h:History,cpu:Color|null=null):History{ if(!h.future.length) return h; let past=[...h.past,h.present], [present,...future]=h.future; while(cpu&&present.turn===cpu&&future.length){ past=[...past,present]; [present,...future]=future } return {past,present:restore(present,h.present),future} }
+
+export function countChanges(before:GameState,after:GameState):CountChange[]{ const out:CountChange[]=[]; for(const pool of ["stock","quietus"] as const) for(const color of ["white","black"] as Color[]) for(const type of PIECE_TYPES){ const delta=after[pool][color][type]-before[pool][color][type]; if(delta) out.push({pool,color,type,delta}) } return out }
@@ -0,0 +1,12 @@
+export * from "./types";
+export * from "./board";
+export * from "./ruleset";
+export * from "./setup";
+export * from "./rules";
+export * from "./clock";
+export * from "./ai";
+export * from "./search";
+export * from "./position";
+export * from "./notation";
+export * from "./history";
+export * from "./saves";
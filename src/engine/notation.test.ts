@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { applyPromotionChoice, decodePosition, encodePosition, exportRecord, importGame, importRecord, initialGame, moveRows, parseLayoutCode, parseMoveText, performMove, replayGame, resignGame, startState } from "./index";
+import type { GameState } from "./index";
+import { emptyGame, metamorph, piece, put, sq } from "./test-helpers";
+
+const fromPosition=(gs:GameState)=>{ const r=decodePosition(encodePosition(gs)); if(!r.ok) throw new Error(r.error); return r.state };
+const sans=(gs:GameState)=>replayGame(gs).sans;
+
+describe("position codes", ()=>{
+  it("encode the standard start", ()=>{
+    const gs=initialGame({layout:parseLayoutCode("KQRRBBNNPPPPPPPP".repeat(2))!});
+    expect(encodePosition(gs)).toBe(`mmmmmmmm/mmmmmmmm/8/8/8/8/MMMMMMMM/MMMMMMMM ${"KQRRBBNNPPPPPPPP".repeat(2)} w 1 112228/112228 000000/000000 -- -/- -`);
+  });
+
+  it("round-trip every rules-relevant field", ()=>{
+    const gs=put(emptyGame("black"),{c4:piece("white","K"),f5:{kind:"piece",color:"black",type:"Q",bornAtTurn:0,mustReturn:true,returnByTurn:9},g8:piece("black","P")},{d4:"N"});
+    gs.moveNumber=8; gs.stock.white.N=0; gs.quietus.black.R=2; gs.kingOnBoard.white=true; gs.kingProtectedUntil.white=9; gs.promotion={square:"g8",color:"black"};
+    const code=encodePosition(gs), back=fromPosition(gs);
+    expect(code).toBe(`7m/8/8/2K5/5q(9)2/8/8/M5p1 ${"-".repeat(11)}N${"-".repeat(20)} b 8 112208/112228 000000/002000 K- 9/- g8`);
+    expect(encodePosition(back)).toBe(code);
+    expect(sq(back,"f5").occupant).toMatchObject({type:"Q",color:"black",mustReturn:true,returnByTurn:9});
+    expect(sq(back,"d4").blueSymbol).toBe("N");
+    expect(back).toMatchObject({turn:"black",moveNumber:8,kingOnBoard:{white:true,black:false},kingProtectedUntil:{white:9,black:null},promotion:{square:"g8",color:"black"}});
+    expect(back.stock.white.N).toBe(0); expect(back.quietus.black.R).toBe(2);
+    expect(back.record).toEqual({start:code,moves:[]});
+  });
+
+  it("round-trip counts above 9", ()=>{
+    const gs=emptyGame(); gs.quietus.white.P=10; gs.quietus.black.N=2;
+    const code=encodePosition(gs);
+    expect(code.split(" ")[5]).toBe("0,0,0,0,0,10/000020");
+    expect(fromPosition(gs).quietus).toEqual(gs.quietus);
+    expect(encodePosition(fromPosition(gs))).toBe(code);
+  });
+
+  it("explain what is wrong with a malformed code", ()=>{
+    const good=encodePosition(initialGame({seed:1})).split(" ");
+    const bad=(i:number,v:string)=>{ const f=[...good]; f[i]=v; const r=decodePosition(f.join(" ")); return r.ok?null:r.error };
+    expect(decodePosition("8/8")).toEqual({ok:false,error:"A position has 9 fields (10 with variant rules), found 1."});
+    expect(bad(0,"9/8/8/8/8/8/8/8")).toMatch(/Rank 1 describes 9 squares/);
+    expect(bad(0,"x7/8/8/8/8/8/8/8")).toMatch(/Unknown piece "x"/);
+    expect(bad(2,"white")).toMatch(/Side to move/);
+    expect(bad(4,"11222/112228")).toMatch(/6 digits/);
+    expect(bad(8,"a1")).toMatch(/must hold a pawn/);
+  });
+});
+
+describe("move notation", ()=>{
+  it("marks metamorph steps and transformations on landing", ()=>{
+    let gs=fromPosition(put(emptyGame(),{e7:metamorph("white"),d2:metamorph("black")},{e6:"N"}));
+    gs=performMove(gs,"e7","e6"); gs=performMove(gs,"d2","d3");
+    expect(sans(gs)).toEqual(["Me7-e6=N","Md2-d3"]);
+  });
+
+  it("marks Chrysalis swaps, captures and side effects elsewhere", ()=>{
+    const setup=put(emptyGame(),{e6:metamorph("white"),c3:piece("white","N"),b5:piece("black","P")},{e6:"N",b5:"B"}); setup.stock.white.N=0;
+    let gs=fromPosition(setup);
+    gs=performMove(gs,"c3","b5");
+    expect(sans(gs)).toEqual(["Nc3xb5~B[e6=N]"]);
+  });
+
+  it("marks promotions by source and pieces lost at their deadline", ()=>{
+    const setup=put(emptyGame("black"),{g7:piece("black","P"),f7:piece("black","P")}); setup.quietus.black.R=1;
+    let gs=fromPosition(setup);
+    gs=performMove(gs,"g7","g8"); gs=applyPromotionChoice(gs,"R");
+    gs=performMove(gs,"a8","a7");
+    gs=performMove(gs,"f7","f8"); gs=applyPromotionChoice(gs,"Q");
+    expect(sans(gs)).toEqual(["Pg7-g8^Rq","Ma8-a7","Pf7-f8^Qc[g8!R]"]);
+    expect(gs.record.moves[2]).toEqual({from:"f7",to:"f8",promotion:"Q"});
+  });
+
+  it("marks wins", ()=>{
+    let gs=put(emptyGame(),{a3:piece("white","R"),h3:piece("white","K"),a6:piece("black","K")}); gs.kingOnBoard={white:true,black:true}; gs=fromPosition(gs);
+    gs=performMove(gs,"a3","a6");
+    expect(sans(gs)).toEqual(["Ra3xa6#"]);
+  });
+
+  it("numbers moves in pairs, starting mid-move when black is to play", ()=>{
+    const start=emptyGame("black"); start.moveNumber=4;
+    expect(moveRows(start,["x","y","z"])).toEqual([{number:2,white:null,black:"x"},{number:3,white:"y",black:"z"}]);
+  });
+
+  it("reads tokens with or without annotations", ()=>{
+    expect(parseMoveText("1. Me7-e6=N d2-d3 2. Pg7-g8^Qc[g8!R]+ *")).toEqual([{from:"e7",to:"e6"},{from:"d2",to:"d3"},{from:"g7",to:"g8",promotion:"Q"}]);
+    expect(parseMoveText("1. e9-e8")).toBe('Cannot read move "e9-e8".');
+  });
+});
+
+describe("game records", ()=>{
+  it("round-trip a seeded game", ()=>{
+    let gs=initialGame({seed:99}); gs=performMove(gs,"e7","e6"); gs=performMove(gs,"d2","d3"); gs=performMove(gs,"a7","a6");
+    const text=exportRecord(gs);
+    expect(text).toMatch(/^\[Seed "99"\]\n\[Layout "[KQRBNP]{32}"\]\n\[Result "\*"\]\n\n1\. Me7-e6/);
+    const back=importRecord(text);
+    expect(back.ok&&encodePosition(back.state)).toBe(encodePosition(gs));
+    expect(back.ok&&back.state.record.moves).toEqual(gs.record.moves);
+  });
+
+  it("round-trip a game started from a position", ()=>{
+    let gs=fromPosition(put(emptyGame(),{e7:metamorph("white"),d2:metamorph("black")},{e6:"N"}));
+    gs=performMove(gs,"e7","e6");
+    const text=exportRecord(gs);
+    expect(text).toContain(`[Position "${gs.record.start}"]`);
+    const back=importGame(text);
+    expect(back.ok&&encodePosition(back.state)).toBe(encodePosition(gs));
+    expect(encodePosition(startState(gs))).toBe(gs.record.start);
+  });
+
+  it("round-trip a finished game whose result is not in the moves", ()=>{
+    const gs=resignGame(performMove(initialGame({seed:99}),"e7","e6"),"black");
+    const text=exportRecord(gs);
+    expect(text).toContain('[Result "white (resignation)"]');
+    expect(importRecord(text)).toMatchObject({ok:true,state:{winner:"white",winReason:"resignation"}});
+    expect(importRecord(text.replace("white (resignation)","draw (draw agreed)"))).toMatchObject({ok:true,state:{winner:null,winReason:"draw agreed"}});
+    expect(importRecord(text.replace("white (resignation)","*"))).toMatchObject({ok:true,state:{winner:null,winReason:null}});
+  });
+
+  it("reject illegal moves with their number", ()=>{
+    const gs=initialGame({seed:5});
+    expect(importRecord(`[Seed "5"]\n\n1. Me7-e5`)).toEqual({ok:false,error:"Move 1 (e7-e5) is illegal: Metamorphs only step one square straight ahead."});
+    expect(importRecord(`[Seed "5"]\n\n1. Md2-d3`)).toEqual({ok:false,error:"Move 1 (d2-d3) is illegal."});
+    expect(importRecord("1. Me7-e6")).toEqual({ok:false,error:"A game record needs a valid Layout, Seed or Position tag."});
+    expect(importGame(encodePosition(gs))).toMatchObject({ok:true});
+  });
+});
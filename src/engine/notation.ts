@@ -0,0 +1,50 @@
+import { decodePosition } from "./position";
+import type { PositionResult } from "./position";
+import { applyPromotionChoice, isGameOver, kingInCheck, performMove } from "./rules";
+import { DEFAULT_RULES, isDefaultRules, parseRulesCode, rulesCode } from "./ruleset";
+import { initialGame, layoutToCode, parseLayoutCode, shuffledLayout } from "./setup";
+import type { Color, GameState, MoveAction, PieceType, SquareId } from "./types";
+
+// Move tokens: <unit><from><-|x><to>, unit M for a metamorph or the piece letter. Then "=T" when a metamorph transforms
+// on landing, "~T" when a piece swaps type with the Chrysalis, "^Tq"/"^Tc" for a promotion drawn from Quietus/Chrysalis,
+// bracketed side effects elsewhere ("[d6=N]", "[e5~B]", "[g8!Q]" for a piece lost to Quietus at its deadline), and "+"/"#".
+export interface Replay{ states:GameState[]; sans:string[]; error:string|null }
+export interface MoveRow{ number:number; white:string|null; black:string|null }
+
+const occAt=(gs:GameState,id:SquareId)=>gs.board.find(s=>s.id===id)!.occupant;
+function sideEffects(before:GameState,after:GameState,skip:SquareId[]){ let out=""; for(const sq of after.board){ if(skip.includes(sq.id)) continue; const was=occAt(before,sq.id), now=sq.occupant; if(!was) continue; if(was.kind==="metamorph"&&now?.kind==="piece") out+=`[${sq.id}=${now.type}]`; else if(was.kind==="piece"&&!now) out+=`[${sq.id}!${was.type}]`; else if(was.kind==="piece"&&now?.kind==="piece"&&now.type!==was.type) out+=`[${sq.id}~${now.type}]` } return out }
+
+export function describeMove(before:GameState,move:MoveAction,afterMove:GameState,afterPromotion?:GameState):string{ const {from,to}=move, mover=occAt(before,from)!, landed=occAt(afterMove,to); let san=`${mover.kind==="metamorph"?"M":mover.type}${from}${occAt(before,to)?"x":"-"}${to}`;
+  if(mover.kind==="metamorph"&&landed?.kind==="piece") san+=`=${landed.type}`; else if(mover.kind==="piece"&&landed?.kind==="piece"&&landed.type!==mover.type) san+=`~${landed.type}`;
+  if(afterPromotion&&move.promotion){ const c=afterMove.promotion!.color; san+=`^${move.promotion}${afterPromotion.quietus[c][move.promotion]<afterMove.quietus[c][move.promotion]?"q":"c"}` }
+  san+=sideEffects(before,afterMove,[from,to]); if(mover.kind==="piece"&&!landed) san+=`[${to}!${mover.type}]`; if(afterPromotion) san+=sideEffects(afterMove,afterPromotion,[to]);
+  const final=afterPromotion??afterMove; return san+(final.winner?"#":kingInCheck(final,final.turn)?"+":"") }
+
+export function replayMoves(start:GameState,moves:MoveAction[]):Replay{ const states=[start], sans:string[]=[]; let cur=start;
+  for(let i=0;i<moves.length;i++){ const mv=moves[i], label=`Move ${i+1} (${mv.from}-${mv.to})`, moved=performMove(cur,mv.from,mv.to); if(moved.record.moves.length===cur.record.moves.length) return {states,sans,error:`${label} is illegal${moved.message&&moved!==cur?`: ${moved.message}`:"."}`};
+    let next=moved; if(mv.promotion){ if(!moved.promotion) return {states,sans,error:`${label} does not promote.`}; next=applyPromotionChoice(moved,mv.promotion); if(next.promotion) return {states,sans,error:`${label} cannot promote to ${mv.promotion}.`} } else if(moved.promotion&&i<moves.length-1) return {states,sans,error:`${label} needs a promotion choice.`}
+    sans.push(describeMove(cur,mv,moved,mv.promotion?next:undefined)); states.push(next); cur=next }
+  return {states,sans,error:null} }
+
+export function startState(gs:GameState):GameState{ if(gs.record.start){ const r=decodePosition(gs.record.start); if(r.ok) return r.state } const layout=parseLayoutCode(gs.setup.layout,gs.rules.metamorphia); return initialGame(gs.setup.seed!==null?{seed:gs.setup.seed}:layout?{layout}:undefined,gs.rules) }
+export const replayGame=(gs:GameState)=>replayMoves(startState(gs),gs.record.moves);
+
+export function moveRows(start:GameState,sans:string[]):MoveRow[]{ const rows:MoveRow[]=[]; let turn=start.turn; sans.forEach((san,i)=>{ const number=Math.floor((start.moveNumber+i-1)/2)+1; if(turn==="white"||!rows.length) rows.push({number,white:null,black:null}); rows[rows.length-1][turn]=san; turn=turn==="white"?"black":"white" }); return rows }
+
+export function exportRecord(gs:GameState):string{ const start=startState(gs), {sans}=replayMoves(start,gs.record.moves), tags:[string,string][]=[];
+  if(gs.setup.seed!==null) tags.push(["Seed",String(gs.setup.seed)]); tags.push(["Layout",gs.setup.layout]); if(gs.record.start) tags.push(["Position",gs.record.start]); else if(!isDefaultRules(gs.rules)) tags.push(["Rules",rulesCode(gs.rules)]); tags.push(["Result",gs.winner?`${gs.winner} (${gs.winReason})`:gs.winReason?`draw (${gs.winReason})`:"*"]);
+  const text=moveRows(start,sans).map(r=>`${r.number}.${r.white?` ${r.white}`:".."}${r.black?` ${r.black}`:""}`).join(" "); return `${tags.map(([k,v])=>`[${k} "${v}"]`).join("\n")}\n\n${text}\n` }
+
+const MOVE_TOKEN=/^([MKQRBNP])?([a-h][1-8])[-x]([a-h][1-8])(?:[=~][KQRBNP])?(?:\^([QRBN])[qc])?(?:\[[^\]]*\])*[+#]?$/;
+export function parseMoveText(text:string):MoveAction[]|string{ const moves:MoveAction[]=[]; for(const raw of text.split(/\s+/)){ const tok=raw.replace(/^\d+\.+/,""); if(!tok||tok==="*") continue; const m=MOVE_TOKEN.exec(tok); if(!m) return `Cannot read move "${raw}".`; moves.push({from:m[2] as SquareId,to:m[3] as SquareId,...(m[4]?{promotion:m[4] as PieceType}:{})}) } return moves }
+
+export function importRecord(text:string):PositionResult{ const tags:Record<string,string>={}; const body=text.replace(/^\s*\[(\w+)\s+"([^"]*)"\]\s*$/gm,(_,k:string,v:string)=>{ tags[k]=v; return "" });
+  const rules=tags.Rules?parseRulesCode(tags.Rules):DEFAULT_RULES; if(!rules) return {ok:false,error:`Unknown rules "${tags.Rules}".`}; const band=rules.metamorphia;
+  let start:GameState; if(tags.Position){ const r=decodePosition(tags.Position); if(!r.ok) return r; start=r.state } else if(tags.Seed&&/^\d+$/.test(tags.Seed)&&(!tags.Layout||layoutToCode(shuffledLayout(Number(tags.Seed),band))===tags.Layout)) start=initialGame({seed:Number(tags.Seed)},rules); else { const layout=tags.Layout?parseLayoutCode(tags.Layout,band):null; if(!layout) return {ok:false,error:"A game record needs a valid Layout, Seed or Position tag."}; start=initialGame({layout},rules) }
+  const moves=parseMoveText(body); if(typeof moves==="string") return {ok:false,error:moves}; const {states,error}=replayMoves(start,moves); if(error) return {ok:false,error}; return {ok:true,state:withResult(states[states.length-1],tags.Result)} }
+
+// Resignations, draws and flag falls leave no trace in the moves, so the Result tag restores them when the moves alone don't end the game.
+function withResult(gs:GameState,result:string|undefined):GameState{ const m=/^(white|black|draw) \((.+)\)$/.exec(result??""); if(!m||isGameOver(gs)) return gs; const winner=m[1]==="draw"?null:m[1] as Color;
+  return {...gs,promotion:null,winner,winReason:m[2],message:winner?`Winner: ${winner} (${m[2]})`:`Draw (${m[2]}).`} }
+
+export const importGame=(text:string):PositionResult=>/^\s*\[/.test(text)?importRecord(text):decodePosition(text);
@@ -0,0 +1,32 @@
+import { RANKS } from "./board";
+import { DEFAULT_RULES, isDefaultRules, parseRulesCode, rulesCode } from "./ruleset";
+import { PIECE_TYPES, initialGame, layoutSquares } from "./setup";
+import type { ChrysalisStock, Color, GameState, Occupant, PieceType, SquareId } from "./types";
+
+// Position code: "<board> <cards> <turn> <moveNumber> <stock w/b> <quietus w/b> <kings> <protected w/b> <promotion> [<rules>]".
+// Board ranks run 1→8 separated by "/", files a→h, digits for empty runs; M/m are metamorphs, KQRBNP/kqrbnp pieces,
+// and a piece that must return carries its deadline, e.g. "q(7)". Cards list the Metamorphia ranks upward with "-" for a bare square;
+// counts are one digit each (KQRBNP) unless one passes 9, when that group is comma-separated, e.g. "0,0,0,0,0,10";
+// the rules field ("3-6/1/1/+": band, promotion grace, king protection turns, king-card rule) only appears for variants.
+export type PositionResult={ok:true;state:GameState}|{ok:false;error:string};
+
+const occupantCode=(o:Exclude<Occupant,null>)=>{ if(o.kind==="metamorph") return o.color==="white"?"M":"m"; const c=o.color==="white"?o.type:o.type.toLowerCase(); return o.mustReturn&&o.returnByTurn!==undefined?`${c}(${o.returnByTurn})`:c };
+const countsCode=(s:ChrysalisStock)=>{ const n=PIECE_TYPES.map(t=>s[t]); return n.join(n.every(c=>c<10)?"":",") };
+
+export function encodePosition(gs:GameState):string{ const rows=RANKS.map(r=>{ let row="", gap=0; for(let f=0;f<8;f++){ const o=gs.board.find(s=>s.file===f&&s.rank===r)!.occupant; if(!o){ gap++; continue } if(gap){ row+=gap; gap=0 } row+=occupantCode(o) } return gap?row+gap:row }); const cards=layoutSquares(gs.rules.metamorphia).map(id=>gs.board.find(s=>s.id===id)!.blueSymbol??"-").join(""); const prot=(c:Color)=>gs.kingProtectedUntil[c]??"-";
+  return [rows.join("/"),cards,gs.turn==="white"?"w":"b",gs.moveNumber,`${countsCode(gs.stock.white)}/${countsCode(gs.stock.black)}`,`${countsCode(gs.quietus.white)}/${countsCode(gs.quietus.black)}`,`${gs.kingOnBoard.white?"K":"-"}${gs.kingOnBoard.black?"k":"-"}`,`${prot("white")}/${prot("black")}`,gs.promotion?gs.promotion.square:"-",...(isDefaultRules(gs.rules)?[]:[rulesCode(gs.rules)])].join(" ") }
+
+function parseCounts(text:string):[ChrysalisStock,ChrysalisStock]|null{ const m=/^(\d{6}|\d+(?:,\d+){5})\/(\d{6}|\d+(?:,\d+){5})$/.exec(text); if(!m) return null; const read=(d:string)=>{ const n=d.includes(",")?d.split(","):[...d]; return Object.fromEntries(PIECE_TYPES.map((t,i)=>[t,Number(n[i])])) as unknown as ChrysalisStock }; return [read(m[1]),read(m[2])] }
+const parseDeadline=(text:string)=>text==="-"?null:/^\d+$/.test(text)?Number(text):undefined;
+
+export function decodePosition(text:string):PositionResult{ const fields=text.trim().split(/\s+/); if(fields.length!==9&&fields.length!==10) return {ok:false,error:`A position has 9 fields (10 with variant rules), found ${fields.length}.`}; const [board,cards,turn,moveNumber,stock,quietus,kings,prot,promo,variant]=fields; const rules=variant?parseRulesCode(variant):DEFAULT_RULES; if(!rules) return {ok:false,error:`Unknown rules "${variant}".`}; const gs=initialGame({seed:0},rules), squares=layoutSquares(rules.metamorphia);
+  const rows=board.split("/"); if(rows.length!==8) return {ok:false,error:"The board needs 8 ranks separated by \"/\"."};
+  for(const sq of gs.board) sq.occupant=null; for(let i=0;i<8;i++){ const rank=RANKS[i]; let f=0; for(const tok of rows[i].match(/\d|[KQRBNPkqrbnp]\(\d+\)|./g)??[]){ if(/^\d$/.test(tok)){ f+=Number(tok); continue } if(f>=8){ f++; continue } const sq=gs.board.find(s=>s.file===f&&s.rank===rank)!; if(tok==="M"||tok==="m") sq.occupant={kind:"metamorph",color:tok==="M"?"white":"black"}; else { const m=/^([KQRBNPkqrbnp])(?:\((\d+)\))?$/.exec(tok); if(!m) return {ok:false,error:`Unknown piece "${tok}" on rank ${rank}.`}; const color:Color=m[1]===m[1].toUpperCase()?"white":"black"; sq.occupant={kind:"piece",color,type:m[1].toUpperCase() as PieceType,bornAtTurn:0,...(m[2]?{mustReturn:true,returnByTurn:Number(m[2])}:{})} } f++ } if(f!==8) return {ok:false,error:`Rank ${rank} describes ${f} squares instead of 8.`} }
+  if(cards.length!==squares.length||!/^[KQRBNP-]+$/.test(cards)) return {ok:false,error:`Piece cards must be ${squares.length} of KQRBNP or "-".`}; for(const sq of gs.board) delete sq.blueSymbol; squares.forEach((id,i)=>{ if(cards[i]!=="-") gs.board.find(s=>s.id===id)!.blueSymbol=cards[i] as PieceType });
+  if(turn!=="w"&&turn!=="b") return {ok:false,error:"Side to move must be \"w\" or \"b\"."}; gs.turn=turn==="w"?"white":"black";
+  if(!/^\d+$/.test(moveNumber)||Number(moveNumber)<1) return {ok:false,error:"Move number must be a positive whole number."}; gs.moveNumber=Number(moveNumber);
+  const st=parseCounts(stock), qu=parseCounts(quietus); if(!st||!qu) return {ok:false,error:"Chrysalis and Quietus counts must be two groups of 6 digits (KQRBNP), e.g. 112228/112228, with a group comma-separated once a count passes 9."}; gs.stock={white:st[0],black:st[1]}; gs.quietus={white:qu[0],black:qu[1]};
+  if(!/^[K-][k-]$/.test(kings)) return {ok:false,error:"Kings on board must look like \"Kk\", \"K-\", \"-k\" or \"--\"."}; gs.kingOnBoard={white:kings[0]==="K",black:kings[1]==="k"};
+  const pm=/^([^/]+)\/([^/]+)$/.exec(prot), pw=pm?parseDeadline(pm[1]):undefined, pb=pm?parseDeadline(pm[2]):undefined; if(pw===undefined||pb===undefined) return {ok:false,error:"King protection must look like \"-/-\" or \"5/-\"."}; gs.kingProtectedUntil={white:pw,black:pb};
+  if(promo!=="-"){ const sq=/^[a-h][1-8]$/.test(promo)?gs.board.find(s=>s.id===promo as SquareId)!:null, o=sq?.occupant; if(!o||o.kind!=="piece"||o.type!=="P") return {ok:false,error:`Pending promotion square ${promo} must hold a pawn.`}; gs.promotion={square:sq!.id,color:o.color} }
+  gs.setup={seed:null,layout:cards}; gs.record={start:encodePosition(gs),moves:[]}; return {ok:true,state:gs} }
@@ -0,0 +1,270 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_RULES, INITIAL_COUNTS, applyPromotionChoice, detectWin, generateMoves, initialGame, kingInCheck, landingTransform, legalMovesFor, legalMovesForMetamorph, legalMovesForPiece, moveHints, parseRulesCode, performMove, promotionAvailable, rulesCode } from "./index";
+import type { GameState, PieceType, Square, SquareId } from "./index";
+import { emptyGame, metamorph, piece, put, sq, targets } from "./test-helpers";
+
+describe("initial setup", ()=>{
+  it("deals all 32 piece cards onto Metamorphia and fills the back ranks with metamorphs", ()=>{
+    const gs=initialGame(); const cards=gs.board.filter((s:Square)=>s.blueSymbol);
+    expect(gs.board).toHaveLength(64);
+    expect(cards).toHaveLength(32); expect(cards.every(s=>s.rank>=3&&s.rank<=6)).toBe(true);
+    for(const t of Object.keys(INITIAL_COUNTS) as PieceType[]) expect(cards.filter(s=>s.blueSymbol===t)).toHaveLength(INITIAL_COUNTS[t]*2);
+    expect(gs.board.filter(s=>s.rank<=2).every(s=>s.occupant?.kind==="metamorph"&&s.occupant.color==="black")).toBe(true);
+    expect(gs.board.filter(s=>s.rank>=7).every(s=>s.occupant?.kind==="metamorph"&&s.occupant.color==="white")).toBe(true);
+    expect(gs.stock.white).toEqual(INITIAL_COUNTS); expect(gs.stock.black).toEqual(INITIAL_COUNTS);
+  });
+});
+
+describe("metamorphs", ()=>{
+  it("step one square toward the centre and never onto an occupied square", ()=>{
+    const gs=put(emptyGame(),{e7:metamorph("white"),d2:metamorph("black"),d3:piece("white","R")});
+    expect(targets(legalMovesForMetamorph(gs,sq(gs,"e7")))).toEqual(["e6"]);
+    expect(legalMovesForMetamorph(gs,sq(gs,"d2"))).toEqual([]);
+  });
+
+  it("transform on a piece card, drawing the piece from the Chrysalis", ()=>{
+    const gs=put(emptyGame(),{e7:metamorph("white")},{e6:"N"});
+    const next=performMove(gs,"e7","e6");
+    expect(sq(next,"e6").occupant).toEqual({kind:"piece",color:"white",type:"N",bornAtTurn:1});
+    expect(next.stock.white.N).toBe(1); expect(next.stock.black.N).toBe(2);
+  });
+
+  it("stay metamorphs when the Chrysalis is empty and transform once stock returns", ()=>{
+    const gs=put(emptyGame(),{e7:metamorph("white"),c3:piece("white","N")},{e6:"N",b5:"B"}); gs.stock.white.N=0;
+    const parked=performMove(gs,"e7","e6");
+    expect(sq(parked,"e6").occupant).toEqual(metamorph("white"));
+    parked.turn="white";
+    const next=performMove(parked,"c3","b5");
+    expect(sq(next,"b5").occupant).toMatchObject({type:"B"});
+    expect(sq(next,"e6").occupant).toMatchObject({kind:"piece",type:"N"});
+    expect(next.stock.white.N).toBe(0); expect(next.stock.white.B).toBe(1);
+  });
+});
+
+describe("pieces", ()=>{
+  it("are confined to ranks 3–6, except pawns", ()=>{
+    const gs=put(emptyGame(),{a3:piece("white","R"),c3:piece("white","P")});
+    expect(targets(legalMovesForPiece(gs,sq(gs,"a3")))).toEqual(["a4","a5","a6","b3"]);
+    expect(targets(legalMovesForPiece(gs,sq(gs,"c3")))).toEqual(["c2"]);
+  });
+
+  it("swap type on a different piece card and return the old type to the Chrysalis", ()=>{
+    const gs=put(emptyGame(),{a3:piece("white","R")},{a5:"Q"});
+    const next=performMove(gs,"a3","a5");
+    expect(sq(next,"a5").occupant).toMatchObject({type:"Q",color:"white"});
+    expect(next.stock.white.Q).toBe(0); expect(next.stock.white.R).toBe(INITIAL_COUNTS.R);
+  });
+
+  it("cannot capture metamorphs", ()=>{
+    const gs=put(emptyGame(),{a3:piece("white","R"),a5:metamorph("black")});
+    expect(targets(legalMovesForPiece(gs,sq(gs,"a3")))).toEqual(["a4","b3","c3","d3","e3","f3","g3","h3"]);
+  });
+
+  it("send captured pieces to the owner's Quietus", ()=>{
+    const gs=put(emptyGame(),{a3:piece("white","R"),a6:piece("black","B")});
+    const next=performMove(gs,"a3","a6");
+    expect(next.quietus.black.B).toBe(1); expect(next.quietus.white.B).toBe(0);
+    expect(next.stock.black).toEqual(INITIAL_COUNTS);
+    expect(next.lastMove).toEqual({from:"a3",to:"a6",by:"white"});
+  });
+
+  it("reject moves out of turn and illegal destinations", ()=>{
+    const gs=put(emptyGame(),{a3:piece("white","R"),d4:piece("black","R")});
+    expect(performMove(gs,"d4","d5")).toBe(gs);
+    expect(performMove(gs,"a3","b4").message).toBe("Illegal move.");
+  });
+
+  it("explain why a move is rejected", ()=>{
+    const gs=put(emptyGame(),{a3:piece("white","R"),c3:piece("white","N"),a7:metamorph("white"),h5:metamorph("black")});
+    expect(performMove(gs,"a3","a2").message).toBe("Pieces must stay within ranks 3–6.");
+    expect(performMove(gs,"a3","c3").message).toBe("That square is taken by your own unit.");
+    expect(performMove(gs,"c3","b1").message).toBe("Pieces must stay within ranks 3–6.");
+    expect(performMove(gs,"a3","b2").message).toBe("Illegal move.");
+    expect(performMove(gs,"c3","c1").message).toBe("Illegal move.");
+    expect(performMove(gs,"a7","a5").message).toBe("Metamorphs only step one square straight ahead.");
+    expect(performMove(put(gs,{a6:piece("black","P")}),"a7","a6").message).toBe("Metamorphs cannot capture or step onto an occupied square.");
+  });
+
+  it("preview the piece a unit turns into on landing", ()=>{
+    const gs=put(emptyGame(),{e7:metamorph("white"),c4:piece("white","N")},{e6:"B",d6:"N",e5:"Q"}); gs.stock.white.Q=0;
+    expect(landingTransform(gs,sq(gs,"e7"),sq(gs,"e6"))).toBe("B");
+    expect(landingTransform(gs,sq(gs,"c4"),sq(gs,"d6"))).toBeNull();
+    expect(landingTransform(gs,sq(gs,"c4"),sq(gs,"e5"))).toBeNull();
+    expect(landingTransform(gs,sq(gs,"c4"),sq(gs,"e3"))).toBeNull();
+    expect(targets(legalMovesFor(gs,sq(gs,"e7")))).toEqual(["e6"]);
+  });
+});
+
+describe("promotion", ()=>{
+  function promoted(){ const gs=put(emptyGame("black"),{g7:piece("black","P")}); const reached=performMove(gs,"g7","g8"); return reached }
+
+  it("is offered when a pawn reaches the last rank", ()=>{
+    const next=promoted();
+    expect(next.promotion).toEqual({square:"g8",color:"black"});
+    expect(next.turn).toBe("white"); expect(next.moveNumber).toBe(2);
+  });
+
+  it("draws from Quietus before the Chrysalis", ()=>{
+    const pending=promoted(); pending.quietus.black.R=1;
+    const fromQuietus=applyPromotionChoice(pending,"R");
+    expect(fromQuietus.quietus.black.R).toBe(0); expect(fromQuietus.stock.black.R).toBe(INITIAL_COUNTS.R);
+    const fromStock=applyPromotionChoice(promoted(),"Q");
+    expect(fromStock.stock.black.Q).toBe(0);
+    expect(sq(fromStock,"g8").occupant).toEqual({kind:"piece",color:"black",type:"Q",bornAtTurn:2,mustReturn:true,returnByTurn:3});
+  });
+
+  it("refuses kings, pawns and pieces already at their starting count", ()=>{
+    const pending=put(promoted(),{c4:piece("black","Q")});
+    expect(promotionAvailable(pending,"black","K")).toBe(false);
+    expect(promotionAvailable(pending,"black","P")).toBe(false);
+    expect(promotionAvailable(pending,"black","Q")).toBe(false);
+    expect(applyPromotionChoice(pending,"Q")).toBe(pending);
+  });
+
+  it("is not applied once the move that reached the last rank has won", ()=>{
+    const gs=put(emptyGame("black"),{g7:piece("black","P"),h8:piece("white","K"),d4:piece("black","K")}); gs.kingOnBoard={white:true,black:true};
+    const won=performMove(gs,"g7","h8");
+    expect(won).toMatchObject({winner:"black",winReason:"king captured",promotion:{square:"h8",color:"black"}});
+    expect(applyPromotionChoice(won,"Q")).toBe(won);
+  });
+
+  it("removes the promoted piece to Quietus if it has not returned by its deadline", ()=>{
+    let gs=applyPromotionChoice(promoted(),"Q");
+    gs=performMove(gs,"a8","a7");
+    expect(sq(gs,"g8").occupant).toMatchObject({type:"Q",mustReturn:true});
+    gs=performMove(gs,"h1","h2");
+    expect(sq(gs,"g8").occupant).toBeNull();
+    expect(gs.quietus.black.Q).toBe(1);
+  });
+
+  it("lets the promoted piece leave Metamorphia's bounds to return, then clears the deadline", ()=>{
+    let gs=applyPromotionChoice(promoted(),"Q");
+    gs=performMove(gs,"a8","a7");
+    gs=performMove(gs,"g8","g5");
+    expect(sq(gs,"g5").occupant).toMatchObject({type:"Q",mustReturn:false});
+    expect(gs.quietus.black.Q).toBe(0);
+  });
+});
+
+describe("king safety", ()=>{
+  it("forbids taking the king without your own king on the board", ()=>{
+    const gs=put(emptyGame(),{a3:piece("white","R"),a6:piece("black","K")});
+    const next=performMove(gs,"a3","a6");
+    expect(next.message).toBe("You cannot take the king without your own king on the board.");
+    expect(sq(next,"a6").occupant).toMatchObject({type:"K",color:"black"});
+  });
+
+  it("forbids taking a king during its protection window", ()=>{
+    const gs=put(emptyGame(),{a3:piece("white","R"),h3:piece("white","K"),a6:piece("black","K")}); gs.kingProtectedUntil.black=gs.moveNumber;
+    expect(performMove(gs,"a3","a6").message).toBe("That king is protected this turn.");
+    expect(moveHints(gs,sq(gs,"a3")).find(h=>h.to==="a6")).toEqual({to:"a6",capture:true,transform:null,blocked:"That king is protected this turn."});
+  });
+
+  it("reports a king in check", ()=>{
+    const gs=put(emptyGame(),{a3:piece("white","R"),h3:piece("white","K"),a6:piece("black","K")}); gs.kingOnBoard={white:true,black:true};
+    expect(kingInCheck(gs,"black")).toBe(true);
+    expect(kingInCheck(gs,"white")).toBe(false);
+  });
+});
+
+describe("detectWin", ()=>{
+  it("awards the game for capturing the king", ()=>{
+    const gs=put(emptyGame(),{a3:piece("white","R"),h3:piece("white","K"),a6:piece("black","K")}); gs.kingOnBoard={white:true,black:true};
+    const next=performMove(gs,"a3","a6");
+    expect(next.winner).toBe("white"); expect(next.winReason).toBe("king captured");
+    expect(next.quietus.black.K).toBe(1); expect(next.kingOnBoard.black).toBe(false);
+  });
+
+  it("detects checkmate", ()=>{
+    const gs=put(emptyGame("black"),{a3:piece("black","K"),a6:piece("white","R"),b6:piece("white","R")}); gs.kingOnBoard.black=true;
+    expect(detectWin(gs,"white",null)).toEqual({winner:"white",reason:"checkmate"});
+  });
+
+  it("does not call checkmate while the king has a safe square", ()=>{
+    const gs=put(emptyGame("black"),{a3:piece("black","K"),a6:piece("white","R")}); gs.kingOnBoard.black=true;
+    expect(detectWin(gs,"white",null)).toBeNull();
+  });
+
+  it("tracks kings from the board, so checkmate happens in play", ()=>{
+    const gs=put(emptyGame(),{a3:piece("black","K"),b5:piece("white","R"),h6:piece("white","R")});
+    expect(gs.kingOnBoard.black).toBe(false);
+    const next=performMove(gs,"h6","a6");
+    expect(next.kingOnBoard.black).toBe(true);
+    expect(next).toMatchObject({winner:"white",winReason:"checkmate"});
+  });
+
+  it("awards the game when a kingless side has no mobile pawns or metamorphs", ()=>{
+    const gs=put(emptyGame("black"),{h1:null,c2:metamorph("black"),c3:piece("white","N"),f4:piece("black","P"),f5:piece("white","B")});
+    expect(detectWin(gs,"white",null)).toEqual({winner:"white",reason:"no king + no mobile pawns/metamorphs"});
+    const mobile=put(gs,{c3:null});
+    expect(detectWin(mobile,"white",null)).toBeNull();
+  });
+});
+
+describe("king piece cards", ()=>{
+  const setup=()=>put(emptyGame(),{e7:metamorph("white"),d2:metamorph("black"),c4:piece("white","K")},{e6:"K",d3:"K"});
+
+  it("are off limits to metamorphs while their own king is active", ()=>{
+    const gs=setup();
+    expect(legalMovesForMetamorph(gs,sq(gs,"e7"))).toEqual([]);
+    expect(targets(legalMovesForMetamorph(gs,sq(gs,"d2")))).toEqual(["d3"]);
+    expect(performMove(gs,"e7","e6").message).toBe("Metamorphs cannot enter a King card while their own king is active in Metamorphia.");
+    expect(generateMoves(gs,"white").some(m=>m.from==="e7")).toBe(false);
+  });
+
+  it("are open once the king has left the board or the rule is switched off", ()=>{
+    const kingless=put(setup(),{c4:null});
+    expect(targets(legalMovesForMetamorph(kingless,sq(kingless,"e7")))).toEqual(["e6"]);
+    const variant=setup(); variant.rules={...variant.rules,kingCardRule:false};
+    expect(targets(legalMovesForMetamorph(variant,sq(variant,"e7")))).toEqual(["e6"]);
+  });
+});
+
+describe("variant rules", ()=>{
+  const kingAppears=(turns:number)=>{ const gs=put(emptyGame(),{e7:metamorph("white"),a3:piece("black","K"),e4:piece("black","R")},{e6:"K"}); gs.rules={...gs.rules,kingProtectionTurns:turns}; return performMove(gs,"e7","e6") };
+  const round=(gs:GameState,[a,b]:SquareId[],[c,d]:SquareId[])=>performMove(performMove(gs,a,b),c,d);
+
+  it("track a king that appears and protect it for the opponent's next turn", ()=>{
+    const gs=kingAppears(1);
+    expect(gs.kingOnBoard).toEqual({white:true,black:true});
+    expect(gs.kingProtectedUntil.white).toBe(2);
+    expect(performMove(gs,"e4","e6").message).toBe("That king is protected this turn.");
+    const later=round(gs,["h1","h2"],["a8","a7"]);
+    expect(performMove(later,"e4","e6")).toMatchObject({winner:"black",winReason:"king captured"});
+  });
+
+  it("stretch or drop the king protection window", ()=>{
+    const longer=round(kingAppears(2),["h1","h2"],["a8","a7"]);
+    expect(performMove(longer,"e4","e6").message).toBe("That king is protected this turn.");
+    const none=kingAppears(0);
+    expect(none.kingProtectedUntil.white).toBeNull();
+    expect(performMove(none,"e4","e6").winner).toBe("black");
+  });
+
+  it("give promoted pieces a longer grace period", ()=>{
+    const gs=put(emptyGame("black"),{g7:piece("black","P")}); gs.rules={...gs.rules,promotionGrace:2};
+    let st=applyPromotionChoice(performMove(gs,"g7","g8"),"Q");
+    expect(sq(st,"g8").occupant).toMatchObject({returnByTurn:5});
+    st=round(st,["a8","a7"],["h1","h2"]);
+    expect(sq(st,"g8").occupant).toMatchObject({type:"Q"});
+    st=round(st,["a7","a6"],["h2","h3"]);
+    expect(sq(st,"g8").occupant).toBeNull();
+  });
+
+  it("move the Metamorphia band", ()=>{
+    const gs=put(emptyGame(),{a4:piece("white","R")}); gs.rules={...gs.rules,metamorphia:[4,5]};
+    expect(targets(legalMovesForPiece(gs,sq(gs,"a4")))).toEqual(["a5","b4","c4","d4","e4","f4","g4","h4"]);
+    const narrow=initialGame({seed:1},{...DEFAULT_RULES,metamorphia:[4,5]});
+    expect(narrow.board.filter(s=>s.blueSymbol)).toHaveLength(16);
+    expect(narrow.board.filter(s=>s.blueSymbol).every(s=>s.rank>=4&&s.rank<=5)).toBe(true);
+    expect(narrow.setup.layout).toHaveLength(16);
+  });
+
+  it("round-trip through their code and reject impossible bands", ()=>{
+    expect(rulesCode(DEFAULT_RULES)).toBe("3-6/1/1/+");
+    expect(parseRulesCode("4-5/2/0/-")).toEqual({metamorphia:[4,5],promotionGrace:2,kingProtectionTurns:0,kingCardRule:false});
+    expect(parseRulesCode("3-5/1/1/+")).toBeNull();
+    expect(parseRulesCode("2-7/1/1/+")).toBeNull();
+    expect(parseRulesCode("3-6/0/1/+")).toBeNull();
+  });
+});
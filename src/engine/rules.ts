@@ -0,0 +1,63 @@
+import { INITIAL_COUNTS, deepClone, inBounds } from "./board";
+import { inMetamorphia, kingProtectionEnd, promotionDeadline } from "./ruleset";
+import { runClock, timeLeft } from "./clock";
+import type { Color, GameState, Occupant, PieceType, Square, SquareId, WinResult } from "./types";
+
+export function legalMovesForPiece(gs:GameState,from:Square):{f:number;r:number}[]{ const occ=from.occupant as Extract<Occupant,{kind:"piece"}>; const color=occ.color, board=gs.board, moves:{f:number;r:number}[]=[]; const f0=from.file,r0=from.rank, limit316=!occ.mustReturn; const canLand=(nf:number,nr:number)=> inBounds(nf,nr)&&(!limit316||inMetamorphia(gs,nr)) && (!board.find(s=>s.file===nf&&s.rank===nr)!.occupant || (board.find(s=>s.file===nf&&s.rank===nr)!.occupant as any).color!==color); const rays=(dirs:[number,number][])=>{ for(const [df,dr] of dirs){ let nf=f0+df,nr=r0+dr; while(inBounds(nf,nr)){ if(limit316&&!inMetamorphia(gs,nr)) break; const o=board.find(s=>s.file===nf&&s.rank===nr)!.occupant; if(!o) moves.push({f:nf,r:nr}); else { if((o as any).kind==="piece"&&(o as any).color!==color) moves.push({f:nf,r:nr}); break } nf+=df; nr+=dr } } }; switch(occ.type){ case"N":{ for(const [df,dr] of [[1,2],[2,1],[-1,2],[-2,1],[1,-2],[2,-1],[-1,-2],[-2,-1]] as const){ const nf=f0+df,nr=r0+dr; if(canLand(nf,nr)) moves.push({f:nf,r:nr}) } break } case"B":rays([[1,1],[1,-1],[-1,1],[-1,-1]]);break; case"R":rays([[1,0],[-1,0],[0,1],[0,-1]]);break; case"Q":rays([[1,0],[-1,0],[0,1],[0,-1],[1,1],[1,-1],[-1,1],[-1,-1]]);break; case"K":{ for(let df=-1;df<=1;df++) for(let dr=-1;dr<=1;dr++){ if(!df&&!dr) continue; const nf=f0+df,nr=r0+dr; if(canLand(nf,nr)) moves.push({f:nf,r:nr}) } break } case"P":{ const dir=color==="white"?-1:1, one=r0+dir; if(inBounds(f0,one)&&!gs.board.find(s=>s.file===f0&&s.rank===one)!.occupant) moves.push({f:f0,r:one}); for(const df of [-1,1]){ const nf=f0+df,nr=r0+dir; if(!inBounds(nf,nr)) continue; const o=gs.board.find(s=>s.file===nf&&s.rank===nr)!.occupant; if(o&&(o as any).kind==="piece"&&(o as any).color!==color) moves.push({f:nf,r:nr}) } break } } return moves }
+export function legalMovesForMetamorph(gs:GameState,from:Square){ const m=from.occupant as Extract<Occupant,{kind:"metamorph"}>, dir=m.color==="white"?-1:1, nr=from.rank+dir; if(!inBounds(from.file,nr)) return []; const dest=gs.board.find(s=>s.file===from.file&&s.rank===nr)!; if(dest.occupant||blocksKingCard(gs,dest,m.color)) return []; return [{f:from.file,r:nr}] }
+export const kingActive=(gs:GameState,c:Color)=>{ const k=findKingSquare(gs,c); return !!k&&inMetamorphia(gs,k.rank) };
+export const blocksKingCard=(gs:GameState,dest:Square,c:Color)=>gs.rules.kingCardRule&&dest.blueSymbol==="K"&&!dest.occupant&&inMetamorphia(gs,dest.rank)&&kingActive(gs,c);
+
+
+export const legalMovesFor=(gs:GameState,from:Square)=>!from.occupant?[]:from.occupant.kind==="metamorph"?legalMovesForMetamorph(gs,from):legalMovesForPiece(gs,from);
+export function kingCaptureBlock(gs:GameState,by:Color,target:Occupant):string|null{ if(!target||target.kind!=="piece"||target.type!=="K") return null; if(!findKingSquare(gs,by)) return "You cannot take the king without your own king on the board."; const prot=gs.kingProtectedUntil[target.color]; if(prot!==null&&gs.moveNumber<=prot) return "That king is protected this turn."; return null }
+// Whether the piece could reach the square if Metamorphia covered the whole board, so the band is the only thing in the way.
+const fitsShape=(gs:GameState,from:Square,to:Square)=>legalMovesForPiece({...gs,rules:{...gs.rules,metamorphia:[1,8]}},from).some(m=>m.f===to.file&&m.r===to.rank);
+export function illegalReason(gs:GameState,from:Square,to:Square):string{ const o=from.occupant; if(!o) return "There is nothing to move on that square."; if(to.occupant&&to.occupant.color===o.color) return "That square is taken by your own unit."; if(o.kind==="metamorph"){ if(to.file!==from.file||to.rank!==from.rank+(o.color==="white"?-1:1)) return "Metamorphs only step one square straight ahead."; if(to.occupant) return "Metamorphs cannot capture or step onto an occupied square."; if(blocksKingCard(gs,to,o.color)) return "Metamorphs cannot enter a King card while their own king is active in Metamorphia."; return "Illegal move." } if(to.occupant?.kind==="metamorph") return "Metamorphs cannot be captured."; if(o.type!=="P"&&!o.mustReturn&&!inMetamorphia(gs,to.rank)&&fitsShape(gs,from,to)) return `Pieces must stay within ranks ${gs.rules.metamorphia[0]}–${gs.rules.metamorphia[1]}.`; return "Illegal move." }
+// The piece type a unit turns into by landing on `to`, or null when it stays as it is.
+export function landingTransform(gs:GameState,from:Square,to:Square):PieceType|null{ const o=from.occupant, t=to.blueSymbol; if(!o||!t||!inMetamorphia(gs,to.rank)||(o.kind==="piece"&&o.type===t)) return null; return gs.stock[o.color][t]>0?t:null }
+export interface MoveHint{ to:SquareId; capture:boolean; transform:PieceType|null; blocked:string|null }
+export function moveHints(gs:GameState,from:Square):MoveHint[]{ const o=from.occupant; if(!o) return []; return legalMovesFor(gs,from).map(m=>{ const to=gs.board.find(s=>s.file===m.f&&s.rank===m.r)!; return {to:to.id,capture:!!to.occupant,transform:landingTransform(gs,from,to),blocked:kingCaptureBlock(gs,o.color,to.occupant)} }) }
+
+export function applyAutoTransforms(gs:GameState){ const next=deepClone(gs); for(const sq of next.board){ if(!inMetamorphia(next,sq.rank)||!sq.blueSymbol||!sq.occupant) continue; if(sq.occupant.kind==="metamorph"){ const c=sq.occupant.color,t=sq.blueSymbol; if(next.stock[c][t]>0){ next.stock[c][t]--; sq.occupant={kind:"piece",color:c,type:t,bornAtTurn:next.moveNumber}; } } else { const c=sq.occupant.color,cur=sq.occupant.type,t=sq.blueSymbol; if(cur!==t&&next.stock[c][t]>0){ next.stock[c][cur]=Math.min(INITIAL_COUNTS[cur as PieceType], next.stock[c][cur]+1); next.stock[c][t]--; sq.occupant={kind:"piece",color:c,type:t,bornAtTurn:next.moveNumber}; if(cur==="K"&&t!=="K") next.kingOnBoard[c]=false; } } } return {newGs:next,changed:true} }
+
+export function performMove(gs:GameState,fromId:SquareId,toId:SquareId):GameState{ if(isGameOver(gs)) return gs; const sFrom=gs.board.find(s=>s.id===fromId)!, sTo=gs.board.find(s=>s.id===toId)!; const mover=sFrom.occupant; if(!mover) return gs; const next=deepClone(gs), from=next.board.find(s=>s.id===fromId)!, to=next.board.find(s=>s.id===toId)!; let legal:{f:number;r:number}[]=[]; if(mover.kind==="metamorph"){ if(mover.color!==next.turn) return gs; legal=legalMovesForMetamorph(gs,sFrom) } else { if(mover.color!==next.turn) return gs; legal=legalMovesForPiece(gs,sFrom) } if(!legal.some(m=>m.f===to.file&&m.r===to.rank)) return {...gs,message:illegalReason(gs,sFrom,sTo)}; const target=to.occupant; let capturedKing:Color|null=null; const blocked=kingCaptureBlock(gs,mover.color,target); if(blocked) return {...gs,message:blocked};
+  if(target&&target.kind==="piece"){ next.quietus[target.color][target.type]++; if(target.type==="K"){ next.kingOnBoard[target.color]=false; capturedKing=target.color } }
+  to.occupant=from.occupant; from.occupant=null; next.lastMove={from:fromId,to:toId,by:(mover as any).color}; next.record.moves.push({from:fromId,to:toId});
+  if(to.occupant&&to.occupant.kind==="piece"&&to.occupant.mustReturn&&inMetamorphia(next,to.rank)){ to.occupant.mustReturn=false; (to.occupant as any).returnByTurn=undefined }
+  if(to.occupant&&to.occupant.kind==="piece"&&inMetamorphia(next,to.rank)&&to.blueSymbol){ const c=to.occupant.color,cur=to.occupant.type,t=to.blueSymbol; if(cur!==t&&next.stock[c][t]>0){ next.stock[c][cur]=Math.min(INITIAL_COUNTS[cur],next.stock[c][cur]+1); next.stock[c][t]--; to.occupant={kind:"piece",color:c,type:t,bornAtTurn:next.moveNumber}; if(cur==="K"&&t!=="K") next.kingOnBoard[c]=false; } }
+  if(to.occupant&&to.occupant.kind==="metamorph"&&inMetamorphia(next,to.rank)&&to.blueSymbol){ const c=to.occupant.color,t=to.blueSymbol; if(next.stock[c][t]>0){ next.stock[c][t]--; to.occupant={kind:"piece",color:c,type:t,bornAtTurn:next.moveNumber}; } }
+  if(to.occupant&&to.occupant.kind==="piece"&&to.occupant.type==="P"){ if((to.occupant.color==="white"&&to.rank===1)||(to.occupant.color==="black"&&to.rank===8)) next.promotion={square:to.id,color:to.occupant.color} }
+  next.turn=next.turn==="white"?"black":"white"; next.moveNumber++;
+  for(const sq of next.board){ const o=sq.occupant; if(o&&o.kind==="piece"&&o.mustReturn&&o.returnByTurn!==undefined){ const justMoved:Color=next.turn==="white"?"black":"white"; if(o.color===justMoved&&next.moveNumber>=o.returnByTurn){ if(!inMetamorphia(next,sq.rank)){ if(o.type==="K") next.kingOnBoard[o.color]=false; next.quietus[o.color][o.type]+=1; sq.occupant=null } else { o.mustReturn=false; (o as any).returnByTurn=undefined } } } }
+  const {newGs}=applyAutoTransforms(next); syncKings(gs,newGs); newGs.selected=null; newGs.message=null; const lastMover:Color=newGs.turn==="white"?"black":"white"; const win=detectWin(newGs,lastMover,capturedKing); if(win){ newGs.winner=win.winner; newGs.winReason=win.reason; newGs.message=`Winner: ${win.winner} (${win.reason})` } return newGs }
+
+// kingOnBoard is read back from the board after every move, so a king that arrives by transformation can be checked and mated.
+function syncKings(before:GameState,after:GameState){ for(const c of ["white","black"] as Color[]){ const present=!!findKingSquare(after,c); if(present&&!findKingSquare(before,c)) after.kingProtectedUntil[c]=kingProtectionEnd(after,c); after.kingOnBoard[c]=present } }
+
+export const activeCounts=(gs:GameState,c:Color)=>{const m:{[k in PieceType]:number}={K:0,Q:0,R:0,B:0,N:0,P:0}; for(const sq of gs.board){ const o=sq.occupant; if(o&&o.kind==="piece"&&o.color===c) m[o.type]++ } return m };
+export const promotionAvailable=(gs:GameState,c:Color,t:PieceType)=> (t!=="K"&&t!=="P") && activeCounts(gs,c)[t]<INITIAL_COUNTS[t];
+export function applyPromotionChoice(state:GameState,type:PieceType){ if(!state.promotion||isGameOver(state)) return state; if(type==="K"||type==="P") return state; const {square,color}=state.promotion; const next=deepClone(state); const sq=next.board.find(s=>s.id===square)!; if(!promotionAvailable(next,color,type)) return state; let taken=false; if(next.quietus[color][type]>0){ next.quietus[color][type]--; taken=true; } else if(next.stock[color][type]>0){ next.stock[color][type]--; taken=true; } if(!taken){ next.message='No available piece in Quietus or Chrysalis for promotion.'; return next; } const deadline=promotionDeadline(next); sq.occupant={kind:"piece",color,type,bornAtTurn:next.moveNumber,mustReturn:true,returnByTurn:deadline}; next.promotion=null; const last=next.record.moves[next.record.moves.length-1]; if(last&&last.to===square) last.promotion=type; const {newGs}=applyAutoTransforms(next); syncKings(state,newGs); return newGs }
+export const isSquareAttacked=(gs:GameState,f:number,r:number,by:Color)=> gs.board.some(sq=>{const o=sq.occupant; return o&&o.kind==="piece"&&o.color===by&&legalMovesForPiece(gs,sq).some(m=>m.f===f&&m.r===r)});
+export const findKingSquare=(gs:GameState,c:Color)=> gs.board.find(sq=>{const o=sq.occupant; return o&&o.kind==="piece"&&o.color===c&&o.type==="K"})||null;
+export const anyPawnCanMove=(gs:GameState,c:Color)=> gs.board.some(sq=>{const o=sq.occupant; return o&&o.kind==="piece"&&o.color===c&&o.type==="P"&&legalMovesForPiece(gs,sq).length});
+export const anyMetamorphCanMove=(gs:GameState,c:Color)=> gs.board.some(sq=>{const o=sq.occupant; return o&&o.kind==="metamorph"&&o.color===c&&legalMovesForMetamorph(gs,sq).length});
+export const hasAnyMetamorph=(gs:GameState,c:Color)=> gs.board.some(s=>s.occupant&&s.occupant.kind==="metamorph"&&s.occupant.color===c);
+export const hasAnyPawn=(gs:GameState,c:Color)=> gs.board.some(s=>s.occupant&&s.occupant.kind==="piece"&&s.occupant.color===c&&s.occupant.type==="P");
+export function detectWin(gs:GameState,lastMover:Color,capturedKing:Color|null){ const opp:Color=gs.turn; if(capturedKing) return {winner:lastMover,reason:"king captured"}; if(gs.kingOnBoard[opp]){ const ksq=findKingSquare(gs,opp); if(ksq){ const inCheck=isSquareAttacked(gs,ksq.file,ksq.rank,lastMover); if(inCheck){ const occ=ksq.occupant as any; const kingMoves=legalMovesForPiece(gs,ksq).filter(m=>occ.type==="K"); const safe=kingMoves.filter(m=>!isSquareAttacked(gs,m.f,m.r,lastMover)); if(!safe.length) return {winner:lastMover,reason:"checkmate"} } } } for(const c of ["white","black"] as Color[]){ if(!gs.kingOnBoard[c]){ const noP=!hasAnyPawn(gs,c), pStuck=!noP&&!anyPawnCanMove(gs,c), noM=!hasAnyMetamorph(gs,c), mStuck=!noM&&!anyMetamorphCanMove(gs,c); if((noP||pStuck)&&(noM||mStuck)){ const winner:Color=c==="white"?"black":"white"; return {winner,reason:"no king + no mobile pawns/metamorphs"} } } } return null }
+
+// A game also ends without a winner when both players agree to a draw; winReason then says so.
+export const isGameOver=(gs:GameState)=>!!(gs.winner||gs.winReason);
+
+// The clock runs for whoever must act, which while a promotion is pending is the promoting player.
+export const clockActor=(gs:GameState):Color|null=>isGameOver(gs)?null:gs.promotion?.color??gs.turn;
+// Starts a stopped clock for whoever must act without charging anyone: when a game starts, is restored, or both online players are seated.
+export const resumeClock=(gs:GameState,now:number):GameState=>gs.clock&&!gs.clock.running&&clockActor(gs)?{...gs,clock:runClock(gs.clock,clockActor(gs),now)}:gs;
+export function flagFall(gs:GameState,now:number):WinResult|null{ const c=gs.clock?.running; if(!c||isGameOver(gs)||timeLeft(gs.clock!,c,now)>0) return null; return {winner:c==="white"?"black":"white",reason:"flag fall"} }
+export function checkClock(gs:GameState,now:number):GameState{ const flag=flagFall(gs,now); if(!flag) return gs; return {...gs,promotion:null,selected:null,winner:flag.winner,winReason:flag.reason,message:`Winner: ${flag.winner} (${flag.reason})`,clock:runClock(gs.clock!,null,now)} }
+// Carries the clock from one state to the next: a move made after the flag fell does not count, otherwise the clock passes to the side now to act.
+export function tickClock(before:GameState,after:GameState,now:number):GameState{ if(!before.clock) return after; const flagged=checkClock(before,now); if(flagged!==before) return flagged; return {...after,clock:runClock(before.clock,clockActor(after),now)} }
+export function resignGame(gs:GameState,c:Color):GameState{ if(isGameOver(gs)) return gs; const winner:Color=c==="white"?"black":"white"; return {...gs,promotion:null,selected:null,winner,winReason:"resignation",message:`Winner: ${winner} (resignation)`} }
+export const agreeDraw=(gs:GameState):GameState=>isGameOver(gs)?gs:{...gs,promotion:null,selected:null,winner:null,winReason:"draw agreed",message:"Draw agreed."};
+
+export function kingInCheck(gs:GameState,c:Color){ if(!gs.kingOnBoard[c]) return false; const ksq=findKingSquare(gs,c); if(!ksq) return false; const att: Color = c==="white"?"black":"white"; return isSquareAttacked(gs,ksq.file,ksq.rank,att) }
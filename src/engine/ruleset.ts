@@ -0,0 +1,16 @@
+import type { Color, GameState, RuleOptions } from "./types";
+
+export const DEFAULT_RULES:RuleOptions={metamorphia:[3,6],promotionGrace:1,kingProtectionTurns:1,kingCardRule:true};
+// Ranks 1–2 and 7–8 always hold the starting metamorphs, so the band can shrink toward the centre but never reach them.
+export const METAMORPHIA_BANDS:[number,number][]=[[4,5],[3,6]];
+
+export const inMetamorphia=(gs:Pick<GameState,"rules">,r:number)=>r>=gs.rules.metamorphia[0]&&r<=gs.rules.metamorphia[1];
+export function validateRules(o:RuleOptions):string|null{ const [from,to]=o.metamorphia; if(!Number.isInteger(from)||!Number.isInteger(to)||from<3||to>6||from>=to||(to-from+1)%2) return "Metamorphia must span an even number of ranks between 3 and 6."; if(!Number.isInteger(o.promotionGrace)||o.promotionGrace<1) return "Promoted pieces need at least one move to return."; if(!Number.isInteger(o.kingProtectionTurns)||o.kingProtectionTurns<0) return "King protection must be zero or more turns."; return null }
+
+export const rulesCode=(o:RuleOptions)=>`${o.metamorphia[0]}-${o.metamorphia[1]}/${o.promotionGrace}/${o.kingProtectionTurns}/${o.kingCardRule?"+":"-"}`;
+export const isDefaultRules=(o:RuleOptions)=>rulesCode(o)===rulesCode(DEFAULT_RULES);
+export function parseRulesCode(code:string):RuleOptions|null{ const m=/^(\d)-(\d)\/(\d+)\/(\d+)\/([+-])$/.exec(code.trim()); if(!m) return null; const o:RuleOptions={metamorphia:[Number(m[1]),Number(m[2])],promotionGrace:Number(m[3]),kingProtectionTurns:Number(m[4]),kingCardRule:m[5]==="+"}; return validateRules(o)?null:o }
+
+// Move numbers count plies, so the owner's n-th move after a promotion ends on moveNumber+2n.
+export const promotionDeadline=(gs:GameState)=>gs.moveNumber+2*gs.rules.promotionGrace-1;
+export function kingProtectionEnd(gs:GameState,c:Color):number|null{ if(!gs.rules.kingProtectionTurns) return null; const firstEnemyTurn=gs.turn===c?gs.moveNumber+1:gs.moveNumber; return firstEnemyTurn+2*(gs.rules.kingProtectionTurns-1) }
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS, SAVE_KEYS, deleteGame, encodePosition, initialGame, listSaves, loadAutosave, loadGame, loadSettings, migrate, performMove, resignGame, saveAutosave, saveGame, saveSettings, startClock } from "./index";
+import type { KeyValueStore } from "./index";
+
+function memoryStore():KeyValueStore&{data:Map<string,string>}{ const data=new Map<string,string>(); return {data,getItem:k=>data.get(k)??null,setItem:(k,v)=>{ data.set(k,v) },removeItem:k=>{ data.delete(k) }} }
+const played=()=>performMove(performMove(initialGame({seed:5}),"e7","e6"),"d2","d3");
+
+describe("saves", ()=>{
+  it("autosaves the game without its selection or AI settings", ()=>{
+    const store=memoryStore(), gs={...played(),selected:"c7" as const,ai:{...DEFAULT_SETTINGS.ai,mode:"cpu" as const}};
+    expect(loadAutosave(store)).toBeNull();
+    saveAutosave(store,gs);
+    const back=loadAutosave(store,DEFAULT_SETTINGS.ai)!;
+    expect(encodePosition(back)).toBe(encodePosition(gs)); expect(back.record).toEqual(gs.record);
+    expect(back.selected).toBeNull(); expect(back.ai.mode).toBe("human");
+  });
+
+  it("restores a running clock paused", ()=>{
+    const store=memoryStore(), gs={...played(),clock:{...startClock({kind:"sudden",baseMs:60000,extraMs:0}),running:"white" as const,since:123}};
+    saveAutosave(store,gs);
+    expect(loadAutosave(store)!.clock).toEqual({...gs.clock,running:null,since:null});
+  });
+
+  it("keeps named slots, newest first, and replaces a slot saved under the same name", ()=>{
+    const store=memoryStore();
+    expect(saveGame(store,"  ",played())).toBe("Give the save a name.");
+    saveGame(store,"Opening",initialGame({seed:5}),1000);
+    saveGame(store,"Finished",resignGame(played(),"black"),2000);
+    expect(listSaves(store)).toMatchObject([{name:"Finished",savedAt:2000,result:"white wins",winReason:"resignation",moves:2},{name:"Opening",savedAt:1000,result:"in progress",winReason:null,moves:0}]);
+    saveGame(store,"Opening",played(),3000);
+    const list=listSaves(store);
+    expect(list.map(s=>[s.name,s.moves])).toEqual([["Opening",2],["Finished",2]]);
+    expect(loadGame(store,list[1].id)).toMatchObject({winner:"white",winReason:"resignation"});
+    deleteGame(store,list[0].id);
+    expect(listSaves(store).map(s=>s.name)).toEqual(["Finished"]); expect(loadGame(store,list[0].id)).toBeNull();
+  });
+
+  it("reads settings field by field and never stores online mode", ()=>{
+    const store=memoryStore();
+    expect(loadSettings(store)).toEqual(DEFAULT_SETTINGS);
+    const clock={kind:"delay" as const,baseMs:300000,extraMs:5000};
+    saveSettings(store,{...DEFAULT_SETTINGS,ai:{mode:"online",cpuPlays:"white",level:"Expert",thinkMs:5000},showHints:false,clock});
+    expect(loadSettings(store)).toEqual({...DEFAULT_SETTINGS,ai:{mode:"human",cpuPlays:"white",level:"Expert",thinkMs:5000},showHints:false,clock});
+    store.setItem(SAVE_KEYS.settings,JSON.stringify({v:1,data:{ai:{level:"Grandmaster",cpuPlays:"white"},rules:{metamorphia:[7,2]},showHints:"yes",clock:{kind:"blitz"}}}));
+    expect(loadSettings(store)).toEqual({...DEFAULT_SETTINGS,ai:{...DEFAULT_SETTINGS.ai,cpuPlays:"white"}});
+  });
+
+  it("upgrades old data and ignores data it cannot read", ()=>{
+    const upgrade=[(d:any)=>({...d,b:d.a+1}),(d:any)=>({...d,c:d.b+1})];
+    expect(migrate(JSON.stringify({v:1,data:{a:1}}),upgrade)).toEqual({a:1,b:2,c:3});
+    expect(migrate(JSON.stringify({v:2,data:{b:5}}),upgrade)).toEqual({b:5,c:6});
+    expect(migrate(JSON.stringify({v:4,data:{}}),upgrade)).toBeNull();
+    expect(migrate("{oops",upgrade)).toBeNull();
+    const store=memoryStore(); store.setItem(SAVE_KEYS.autosave,JSON.stringify({v:1,data:{board:[]}}));
+    expect(loadAutosave(store)).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { DEFAULT_RULES, validateRules } from "./ruleset";
+import { pauseClock, validClock, validTimeControl } from "./clock";
+import { DEFAULT_AI } from "./setup";
+import type { AiSettings, GameState, RuleOptions, TimeControl } from "./types";
+
+// Anything with the localStorage API; tests pass an in-memory one.
+export interface KeyValueStore{ getItem(key:string):string|null; setItem(key:string,value:string):void; removeItem(key:string):void }
+export interface Settings{ ai:AiSettings; rules:RuleOptions; showHints:boolean; clock:TimeControl|null }
+export interface SavedGame{ id:string; name:string; savedAt:number; state:GameState }
+export interface SaveSummary{ id:string; name:string; savedAt:number; result:string; winReason:string|null; moves:number }
+
+export const SAVE_KEYS={autosave:"chrysalis.autosave",slots:"chrysalis.saves",settings:"chrysalis.settings"};
+export const DEFAULT_SETTINGS:Settings={ai:DEFAULT_AI,rules:DEFAULT_RULES,showHints:true,clock:null};
+
+// Every stored value is wrapped as {v,data}. When the saved shape of GameState or Settings changes, append a step that
+// upgrades data written by the previous version: MIGRATIONS[n] turns version n+1 into n+2, and SAVE_VERSION follows.
+export type Migration=(data:any)=>any;
+export const MIGRATIONS:Migration[]=[];
+export const SAVE_VERSION=MIGRATIONS.length+1;
+
+export function migrate(text:string|null,migrations:Migration[]=MIGRATIONS):any{ if(!text) return null; let env:any; try{ env=JSON.parse(text) }catch{ return null } if(!env||typeof env!=="object"||!Number.isInteger(env.v)||env.v<1) return null; const latest=migrations.length+1; if(env.v>latest) return null; let data=env.data; for(let v=env.v;v<latest;v++) data=migrations[v-1](data); return data }
+const wrap=(data:unknown)=>JSON.stringify({v:SAVE_VERSION,data});
+const write=(store:KeyValueStore,key:string,data:unknown):string|null=>{ try{ store.setItem(key,wrap(data)); return null }catch{ return "Local storage is full or unavailable." } };
+
+// Selections, messages and AI settings are not part of a saved game; settings carry the AI preferences instead.
+const stored=(gs:GameState)=>{ const {selected:_s,ai:_a,...rest}=gs; return {...rest,message:gs.winner||gs.winReason?gs.message:null} };
+const validRules=(r:any)=>!!r&&typeof r==="object"&&Array.isArray(r.metamorphia)&&!validateRules(r);
+const looksLikeGame=(s:any)=>!!s&&Array.isArray(s.board)&&s.board.length===64&&(s.turn==="white"||s.turn==="black")&&Number.isInteger(s.moveNumber)&&!!s.record&&Array.isArray(s.record.moves)&&validRules(s.rules)&&(s.clock==null||validClock(s.clock));
+// A restored clock comes back stopped, so the time the game spent on disk is not charged; resumeClock restarts it.
+const restored=(s:any,ai:AiSettings):GameState|null=>looksLikeGame(s)?{...s,selected:null,ai,clock:s.clock?pauseClock(s.clock):null}:null;
+
+export const saveAutosave=(store:KeyValueStore,gs:GameState)=>write(store,SAVE_KEYS.autosave,stored(gs));
+export const loadAutosave=(store:KeyValueStore,ai:AiSettings=DEFAULT_SETTINGS.ai)=>restored(migrate(store.getItem(SAVE_KEYS.autosave)),ai);
+
+const readSlots=(store:KeyValueStore):SavedGame[]=>{ const slots=migrate(store.getItem(SAVE_KEYS.slots)); return Array.isArray(slots)?slots.filter(s=>s&&typeof s.id==="string"&&looksLikeGame(s.state)):[] };
+const resultOf=(gs:GameState)=>gs.winner?`${gs.winner} wins`:gs.winReason?"draw":"in progress";
+export const listSaves=(store:KeyValueStore):SaveSummary[]=>readSlots(store).map(s=>({id:s.id,name:s.name,savedAt:s.savedAt,result:resultOf(s.state),winReason:s.state.winReason??null,moves:s.state.record.moves.length})).sort((a,b)=>b.savedAt-a.savedAt);
+// Saving under a name that already exists replaces that slot.
+export function saveGame(store:KeyValueStore,name:string,gs:GameState,now=Date.now()):string|null{ const title=name.trim(); if(!title) return "Give the save a name."; const slots=readSlots(store), id=slots.find(s=>s.name===title)?.id??`${now.toString(36)}-${Math.random().toString(36).slice(2,7)}`; return write(store,SAVE_KEYS.slots,[...slots.filter(s=>s.id!==id),{id,name:title,savedAt:now,state:stored(gs)}]) }
+export const loadGame=(store:KeyValueStore,id:string,ai:AiSettings=DEFAULT_SETTINGS.ai)=>{ const slot=readSlots(store).find(s=>s.id===id); return slot?restored(slot.state,ai):null };
+export const deleteGame=(store:KeyValueStore,id:string)=>write(store,SAVE_KEYS.slots,readSlots(store).filter(s=>s.id!==id));
+
+// Unknown or invalid fields fall back to their defaults one by one, so a partly broken settings entry keeps what it can.
+export function loadSettings(store:KeyValueStore):Settings{ const s=migrate(store.getItem(SAVE_KEYS.settings))??{}, ai={...DEFAULT_SETTINGS.ai,...(s.ai&&typeof s.ai==="object"?s.ai:{})};
+  if(!["human","cpu"].includes(ai.mode)) ai.mode=DEFAULT_SETTINGS.ai.mode; if(ai.cpuPlays!=="white"&&ai.cpuPlays!=="black") ai.cpuPlays=DEFAULT_SETTINGS.ai.cpuPlays; if(!["Easy","Medium","Hard","Expert"].includes(ai.level)) ai.level=DEFAULT_SETTINGS.ai.level; if(!(ai.thinkMs>0)) ai.thinkMs=DEFAULT_SETTINGS.ai.thinkMs;
+  const rules=validRules(s.rules)?s.rules:DEFAULT_SETTINGS.rules;
+  return {ai,rules,showHints:typeof s.showHints==="boolean"?s.showHints:DEFAULT_SETTINGS.showHints,clock:validTimeControl(s.clock)?s.clock:DEFAULT_SETTINGS.clock} }
+// Online play is a session, not a preference, so it is stored as hot-seat.
+export const saveSettings=(store:KeyValueStore,s:Settings)=>write(store,SAVE_KEYS.settings,{...s,ai:{...s.ai,mode:s.ai.mode==="online"?"human":s.ai.mode}});
+
+export function browserStore():KeyValueStore|null{ try{ return typeof localStorage==="undefined"?null:localStorage }catch{ return null } }
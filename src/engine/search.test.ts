@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { fromState, fullHash, inCheck, makeMove, pseudoMoves, squareId, unmakeMove } from "./fastboard";
+import type { FastBoard } from "./fastboard";
+import { aiBestPromotion, aiResolvePromotion, generateMoves, initialGame, mulberry32, performMove, pickAiMove, searchBestMove } from "./index";
+import type { GameState } from "./index";
+import { emptyGame, piece, put } from "./test-helpers";
+
+const snapshot=(b:FastBoard)=>({cells:[...b.cells],due:[...b.due],stock:[...b.stock],quietus:[...b.quietus],prot:[...b.prot],kings:[...b.kings],turn:b.turn,ply:b.ply,winner:b.winner,hash:b.hash});
+const label=(m:number)=>`${squareId(m&63)}-${squareId(m>>6&63)}`;
+function fastLegal(b:FastBoard){ const c=b.turn, all=pseudoMoves(b,c,[]).slice(), safe=all.filter(m=>{ makeMove(b,m); const ok=!inCheck(b,c); unmakeMove(b); return ok }); return (inCheck(b,c)||safe.length?safe:all).map(label).sort() }
+
+// Plays seeded random games with the rules engine and checks the search board agrees with it move by move.
+function playout(seed:number,plies:number,check:(gs:GameState,moves:ReturnType<typeof generateMoves>)=>void){ const rnd=mulberry32(seed); let gs=initialGame({seed}); for(let i=0;i<plies&&!gs.winner;i++){ const moves=generateMoves(gs,gs.turn); if(!moves.length) break; check(gs,moves); gs=moves[Math.floor(rnd()*moves.length)].next } }
+
+describe("search board", ()=>{
+  it("generates the same moves as the rules engine", ()=>{
+    for(const seed of [3,17]) playout(seed,40,(gs,moves)=>expect(fastLegal(fromState(gs))).toEqual(moves.map(m=>`${m.from}-${m.to}`).sort()));
+  });
+
+  it("makes moves exactly like performMove and unmakes them without a trace", ()=>{
+    playout(8,30,(gs,moves)=>{ const b=fromState(gs), before=snapshot(b);
+      for(const mv of moves){ const m=pseudoMoves(b,b.turn,[]).find(x=>label(x)===`${mv.from}-${mv.to}`)!; makeMove(b,m);
+        const {hash,...made}=snapshot(b), {hash:expectedHash,...expected}=snapshot(fromState(mv.next));
+        expect(made).toEqual(expected); expect(hash).toBe(fullHash(b)); expect(hash).toBe(expectedHash);
+        unmakeMove(b); expect(snapshot(b)).toEqual(before) } });
+  });
+});
+
+describe("computer moves", ()=>{
+  it("include moves that win the game", ()=>{
+    const gs=put(emptyGame(),{a3:piece("white","R"),h3:piece("white","K"),a6:piece("black","K")}); gs.kingOnBoard={white:true,black:true};
+    expect(generateMoves(gs,"white").find(m=>m.from==="a3"&&m.to==="a6")?.next).toMatchObject({winner:"white",winReason:"king captured"});
+  });
+
+  it("promote only to pieces Quietus or the Chrysalis can supply", ()=>{
+    const gs=put(emptyGame("black"),{g7:piece("black","P")}); gs.stock.black.Q=0;
+    const pending=performMove(gs,"g7","g8");
+    expect(aiBestPromotion(pending,"black")).toBe("R");
+    expect(aiResolvePromotion(pending,"black")).toMatchObject({promotion:null,board:expect.arrayContaining([expect.objectContaining({id:"g8",occupant:expect.objectContaining({type:"R"})})])});
+  });
+});
+
+describe("search", ()=>{
+  it("takes an unprotected king", ()=>{
+    const gs=put(emptyGame(),{a3:piece("white","R"),h3:piece("white","K"),a6:piece("black","K"),c5:piece("black","Q")});
+    expect(searchBestMove(gs,{timeMs:200})).toMatchObject({from:"a3",to:"a6"});
+  });
+
+  it("wins an undefended queen", ()=>{
+    const gs=put(emptyGame(),{a3:piece("white","R"),h3:piece("white","K"),a5:piece("black","Q"),h6:piece("black","K"),c6:piece("black","P")});
+    expect(searchBestMove(gs,{timeMs:300,maxDepth:3})).toMatchObject({from:"a3",to:"a5"});
+  });
+
+  it("stops within its thinking time and still returns a legal move", ()=>{
+    const gs={...initialGame({seed:11}),ai:{mode:"cpu" as const,cpuPlays:"white" as const,level:"Expert" as const,thinkMs:150}};
+    const started=Date.now(), next=pickAiMove(gs);
+    expect(Date.now()-started).toBeLessThan(1500);
+    expect(next.record.moves).toHaveLength(1);
+  });
+});
@@ -0,0 +1,64 @@
+import { K, colorOf, forPieceTargets, fromState, inBand, inCheck, isPiece, makeMove, moveFrom, moveTo, pseudoMoves, squareId, typeOf, unmakeMove } from "./fastboard";
+import type { FastBoard } from "./fastboard";
+import type { GameState, SquareId } from "./types";
+
+export interface SearchOptions{ timeMs:number; maxDepth?:number; now?:()=>number }
+export interface SearchResult{ from:SquareId; to:SquareId; score:number; depth:number; nodes:number }
+
+const VALUE=[0,900,500,330,320,100], KING_PRESENT=350, WIN=1e6, MAX_PLY=64, TT_BITS=18, TT_MASK=(1<<TT_BITS)-1;
+const EXACT=0, LOWER=1, UPPER=2;
+
+// Static score from c's point of view: material, what metamorphs and Chrysalis stock can still become, and the risk of promoted pieces missing their return deadline.
+export function evaluateFast(b:FastBoard,c:number){ let score=0;
+  for(let i=0;i<64;i++){ const v=b.cells[i]; if(!v) continue; const side=colorOf(v), sign=side===c?1:-1;
+    if(!isPiece(v)){ score+=sign*metamorphValue(b,i); continue }
+    const type=typeOf(v), inside=inBand(b,i); let s=type===K?KING_PRESENT:VALUE[type]; if(inside) s+=4;
+    let moves=0, upgrade=0, homeward=false; forPieceTargets(b,i,to=>{ moves++; if(inBand(b,to)) homeward=true; const card=b.cards[to]; if(card>=0&&card!==type&&type!==K&&inBand(b,to)&&b.stock[side*6+card]>0) upgrade=Math.max(upgrade,VALUE[card]-VALUE[type]) });
+    s+=moves*2+upgrade*0.15;
+    if(b.due[i]&&!inside){ const left=b.due[i]-b.ply; s-=VALUE[type]*(!homeward?(left<=2?0.9:0.5):left<=2?0.3:0.15) }
+    score+=sign*s }
+  for(const side of [0,1]){ let pot=0; for(let t=1;t<6;t++) pot+=b.stock[side*6+t]*VALUE[t]; score+=(side===c?1:-1)*pot*0.03 }
+  if(inCheck(b,c)) score-=40; if(inCheck(b,c^1)) score+=40;
+  return Math.round(score) }
+
+function metamorphValue(b:FastBoard,i:number){ const c=colorOf(b.cells[i]), step=c===0?-8:8; let blocked=false; for(let to=i+step;to>=0&&to<64;to+=step){ if(b.cells[to]) blocked=true; const t=b.cards[to]; if(t>=0&&inBand(b,to)&&b.stock[c*6+t]>0) return 40+(t===K?KING_PRESENT:VALUE[t])*(blocked?0.3:0.6) } return 30 }
+
+interface Search{ b:FastBoard; deadline:number; now:()=>number; nodes:number; ttKey:Int32Array; ttMove:Int32Array; ttScore:Int32Array; ttDepth:Int8Array; ttFlag:Int8Array; killers:Int32Array; history:Int32Array; lists:number[][]; rootMove:number }
+class Timeout extends Error{}
+
+function orderScore(s:Search,m:number,ply:number,ttMove:number){ if(m===ttMove) return 1e7; const b=s.b, from=moveFrom(m), to=moveTo(m), v=b.cells[from], target=b.cells[to]; let score=0;
+  if(isPiece(target)) score+=1e6+(typeOf(target)===K?5000:VALUE[typeOf(target)])*10-(isPiece(v)?VALUE[typeOf(v)]:50)/10;
+  const card=b.cards[to]; if(card>=0&&inBand(b,to)&&b.stock[colorOf(v)*6+card]>0&&(!isPiece(v)||typeOf(v)!==card)) score+=5e5+VALUE[card]-(isPiece(v)?VALUE[typeOf(v)]:0);
+  if(s.killers[ply*2]===m||s.killers[ply*2+1]===m) score+=4e5;
+  return score+s.history[m&4095] }
+
+function ordered(s:Search,ply:number,ttMove:number,capturesOnly=false){ const list=s.lists[ply]??(s.lists[ply]=[]); pseudoMoves(s.b,s.b.turn,list); if(capturesOnly){ let n=0; for(const m of list) if(isPiece(s.b.cells[moveTo(m)])) list[n++]=m; list.length=n } const keyed=list.map(m=>[orderScore(s,m,ply,ttMove),m]); keyed.sort((x,y)=>y[0]-x[0]); return keyed.map(x=>x[1]) }
+
+function tick(s:Search){ if((++s.nodes&1023)===0&&s.now()>s.deadline) throw new Timeout() }
+
+// generateMoves drops moves that leave the mover's king attacked, unless every move does and the king is not already in check.
+function negamax(s:Search,depth:number,alpha:number,beta:number,ply:number):number{ tick(s); const b=s.b;
+  if(depth<=0) return quiesce(s,alpha,beta,ply);
+  const slot=b.hash&TT_MASK, hit=s.ttKey[slot]===b.hash&&s.ttDepth[slot]>0; let ttMove=-1;
+  if(hit){ ttMove=s.ttMove[slot]; if(s.ttDepth[slot]>=depth&&ply>0){ const sc=s.ttScore[slot], flag=s.ttFlag[slot]; if(flag===EXACT||(flag===LOWER&&sc>=beta)||(flag===UPPER&&sc<=alpha)) return sc } }
+  const c=b.turn, checked=inCheck(b,c), moves=ordered(s,ply,ttMove), exposed:number[]=[], start=alpha; let best=-Infinity, bestMove=-1;
+  const score=(m:number)=>{ const sc=b.winner>=0?(b.winner===c?WIN-ply:-(WIN-ply)):-negamax(s,depth-1,-beta,-alpha,ply+1); unmakeMove(b); if(sc>best){ best=sc; bestMove=m } if(sc>alpha) alpha=sc; return alpha>=beta };
+  for(const m of moves){ makeMove(b,m); if(b.winner<0&&inCheck(b,c)){ unmakeMove(b); exposed.push(m); continue } if(score(m)){ if(!isPiece(b.cells[moveTo(m)])){ if(s.killers[ply*2]!==m){ s.killers[ply*2+1]=s.killers[ply*2]; s.killers[ply*2]=m } s.history[m&4095]+=depth*depth } break } }
+  if(bestMove<0&&!checked) for(const m of exposed){ makeMove(b,m); if(score(m)) break }
+  if(bestMove<0) return evaluateFast(b,c);
+  s.ttKey[slot]=b.hash; s.ttMove[slot]=bestMove; s.ttScore[slot]=best; s.ttDepth[slot]=depth; s.ttFlag[slot]=best<=start?UPPER:best>=beta?LOWER:EXACT; if(!ply) s.rootMove=bestMove;
+  return best }
+
+function quiesce(s:Search,alpha:number,beta:number,ply:number):number{ tick(s); const b=s.b, c=b.turn, stand=evaluateFast(b,c); if(stand>=beta||ply>=MAX_PLY) return stand; if(stand>alpha) alpha=stand;
+  for(const m of ordered(s,ply,-1,true)){ makeMove(b,m); let sc:number; if(b.winner>=0) sc=b.winner===c?WIN-ply:-(WIN-ply); else if(inCheck(b,c)){ unmakeMove(b); continue } else sc=-quiesce(s,-beta,-alpha,ply+1); unmakeMove(b); if(sc>=beta) return sc; if(sc>alpha) alpha=sc }
+  return alpha }
+
+// Iterative deepening under a time budget: every completed depth refines the move order for the next one, and the last completed depth decides.
+export function searchBestMove(gs:GameState,{timeMs,maxDepth=MAX_PLY,now=()=>Date.now()}:SearchOptions):SearchResult|null{ const b=fromState(gs); if(b.winner>=0) return null; const start=now();
+  const s:Search={b,deadline:start+timeMs,now,nodes:0,ttKey:new Int32Array(1<<TT_BITS),ttMove:new Int32Array(1<<TT_BITS),ttScore:new Int32Array(1<<TT_BITS),ttDepth:new Int8Array(1<<TT_BITS),ttFlag:new Int8Array(1<<TT_BITS),killers:new Int32Array(MAX_PLY*2+4),history:new Int32Array(4096),lists:[],rootMove:-1};
+  let result:SearchResult|null=null;
+  for(let depth=1;depth<=Math.min(maxDepth,MAX_PLY-8);depth++){ s.deadline=depth>1?start+timeMs:Infinity;
+    try{ const score=negamax(s,depth,-Infinity,Infinity,0), m=s.rootMove; if(m<0) break; result={from:squareId(moveFrom(m)),to:squareId(moveTo(m)),score,depth,nodes:s.nodes}; if(Math.abs(score)>WIN-MAX_PLY) break }
+    catch(e){ if(e instanceof Timeout) break; throw e }
+    if(now()-start>timeMs/2) break }
+  if(result) result.nodes=s.nodes; return result }
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { LAYOUT_SIZE, initialGame, layoutToCode, parseLayoutCode, parseSetup, sameSetup, shuffledLayout, validateLayout } from "./index";
+import type { PieceType } from "./index";
+
+const cards=(gs:ReturnType<typeof initialGame>)=>gs.board.filter(s=>s.blueSymbol).map(s=>`${s.id}${s.blueSymbol}`);
+
+describe("seeded setups", ()=>{
+  it("deal the same layout for the same seed", ()=>{
+    expect(shuffledLayout(42)).toEqual(shuffledLayout(42));
+    expect(cards(initialGame({seed:42}))).toEqual(cards(initialGame({seed:42})));
+    expect(shuffledLayout(42)).not.toEqual(shuffledLayout(43));
+  });
+
+  it("record the seed and layout code on the game", ()=>{
+    const gs=initialGame({seed:7});
+    expect(gs.setup).toEqual({seed:7,layout:layoutToCode(shuffledLayout(7))});
+    expect(sameSetup(gs)).toEqual({seed:7});
+    expect(validateLayout(shuffledLayout(7))).toBeNull();
+  });
+
+  it("pick a fresh seed when none is given", ()=>{
+    expect(initialGame().setup.seed).toEqual(expect.any(Number));
+  });
+});
+
+describe("hand-authored layouts", ()=>{
+  const code="KQRRBBNNPPPPPPPP".repeat(2);
+
+  it("are dealt onto ranks 3–6, a→h", ()=>{
+    const gs=initialGame({layout:parseLayoutCode(code)!});
+    expect(gs.setup).toEqual({seed:null,layout:code});
+    expect(gs.board.find(s=>s.id==="a3")!.blueSymbol).toBe("K");
+    expect(gs.board.find(s=>s.id==="b3")!.blueSymbol).toBe("Q");
+    expect(gs.board.find(s=>s.id==="h6")!.blueSymbol).toBe("P");
+    expect(sameSetup(gs)).toEqual({layout:code.split("")});
+  });
+
+  it("must match twice the Chrysalis counts", ()=>{
+    const wrong=code.replace("Q","P").split("") as PieceType[];
+    expect(validateLayout(wrong)).toMatch(/wrong: Q×1, P×17/);
+    expect(validateLayout(code.slice(1).split("") as PieceType[])).toMatch(new RegExp(`${LAYOUT_SIZE}`));
+    expect(validateLayout([...code.slice(1).split("") as PieceType[],null])).toBe("Every Metamorphia square needs a piece card.");
+    expect(parseLayoutCode(wrong.join(""))).toBeNull();
+  });
+
+  it("can be entered as a seed or a layout code", ()=>{
+    expect(parseSetup(" 1234 ")).toEqual({seed:1234});
+    expect(parseSetup(code.toLowerCase())).toEqual({layout:code.split("")});
+    expect(parseSetup("not a layout")).toBeNull();
+    expect(parseSetup("99999999999")).toBeNull();
+  });
+});
@@ -0,0 +1,25 @@
+import { INITIAL_COUNTS, createInitialBoard, emptyStock, idFrom, zeroStock } from "./board";
+import { DEFAULT_RULES } from "./ruleset";
+import type { AiSettings, GameState, PieceType, RuleOptions, SquareId } from "./types";
+
+type Band=RuleOptions["metamorphia"];
+export const PIECE_TYPES:PieceType[]=["K","Q","R","B","N","P"];
+export const layoutSquares=([from,to]:Band=DEFAULT_RULES.metamorphia)=>{ const out:SquareId[]=[]; for(let r=from;r<=to;r++) for(let f=0;f<8;f++) out.push(idFrom(f,r)); return out };
+export const deckCounts=(band:Band=DEFAULT_RULES.metamorphia)=>{ const sets=layoutSquares(band).length/16; return Object.fromEntries(PIECE_TYPES.map(t=>[t,INITIAL_COUNTS[t]*sets])) as Record<PieceType,number> };
+export const LAYOUT_SQUARES=layoutSquares(), LAYOUT_SIZE=LAYOUT_SQUARES.length, LAYOUT_COUNTS=deckCounts();
+
+export function mulberry32(seed:number){ let a=seed>>>0; return ()=>{ a=(a+0x6D2B79F5)>>>0; let t=a; t=Math.imul(t^(t>>>15),t|1); t^=t+Math.imul(t^(t>>>7),t|61); return ((t^(t>>>14))>>>0)/4294967296 } }
+export const randomSeed=()=>Math.floor(Math.random()*4294967296)>>>0;
+
+export function shuffledLayout(seed:number,band?:Band):PieceType[]{ const rnd=mulberry32(seed), bag:PieceType[]=[], deck=deckCounts(band); for(const t of PIECE_TYPES) for(let i=0;i<deck[t];i++) bag.push(t); for(let i=bag.length-1;i>0;i--){const j=Math.floor(rnd()*(i+1));[bag[i],bag[j]]=[bag[j],bag[i]]} return bag }
+export const layoutCounts=(layout:(PieceType|null)[])=>{ const m:Record<PieceType,number>={K:0,Q:0,R:0,B:0,N:0,P:0}; for(const t of layout) if(t) m[t]++; return m };
+export function validateLayout(layout:(PieceType|null)[],band?:Band):string|null{ const size=layoutSquares(band).length, deck=deckCounts(band); if(layout.length!==size) return `A layout needs exactly ${size} piece cards.`; if(layout.some(t=>!t)) return "Every Metamorphia square needs a piece card."; const counts=layoutCounts(layout); const off=PIECE_TYPES.filter(t=>counts[t]!==deck[t]); return off.length?`Card counts must be ${PIECE_TYPES.map(t=>`${t}×${deck[t]}`).join(", ")} (wrong: ${off.map(t=>`${t}×${counts[t]}`).join(", ")}).`:null }
+
+export const layoutToCode=(layout:PieceType[])=>layout.join("");
+export function parseLayoutCode(code:string,band?:Band):PieceType[]|null{ const s=code.replace(/\s+/g,"").toUpperCase(); if(s.length!==layoutSquares(band).length||!/^[KQRBNP]+$/.test(s)) return null; const layout=s.split("") as PieceType[]; return validateLayout(layout,band)?null:layout }
+export type BoardSetup={seed:number}|{layout:PieceType[]};
+export function parseSetup(text:string,band?:Band):BoardSetup|null{ const s=text.trim(); if(/^\d+$/.test(s)){ const seed=Number(s); return seed<=0xFFFFFFFF?{seed}:null } const layout=parseLayoutCode(s,band); return layout?{layout}:null }
+
+export const DEFAULT_AI:AiSettings={mode:'human',cpuPlays:'black',level:'Medium',thinkMs:1000};
+export function initialGame(setup?:BoardSetup,rules:RuleOptions=DEFAULT_RULES):GameState{ const band=rules.metamorphia, custom=setup&&"layout" in setup?setup.layout:null, seed=custom?null:(setup as {seed:number}|undefined)?.seed??randomSeed(), layout=custom??shuffledLayout(seed!,band); return { board:createInitialBoard(layout,band), turn:"white", moveNumber:1, stock:{white:emptyStock(),black:emptyStock()}, quietus:{white:zeroStock(),black:zeroStock()}, kingOnBoard:{white:false,black:false}, kingProtectedUntil:{white:null,black:null}, selected:null, promotion:null, message:null, winner:null, winReason:null, ai:{...DEFAULT_AI}, clock:null, lastMove:null, setup:{seed,layout:layoutToCode(layout)}, record:{start:null,moves:[]}, rules:{...rules,metamorphia:[...band]} } }
+export function sameSetup(gs:GameState,band:Band=gs.rules.metamorphia):BoardSetup|undefined{ if(gs.setup.seed!==null) return {seed:gs.setup.seed}; const layout=parseLayoutCode(gs.setup.layout,band); return layout?{layout}:undefined }
@@ -0,0 +1,11 @@
+import { idFrom, initialGame } from "./index";
+import type { Color, GameState, Occupant, PieceType, SquareId } from "./index";
+
+export const sq=(gs:GameState,id:SquareId)=>gs.board.find(s=>s.id===id)!;
+export const piece=(color:Color,type:PieceType):Occupant=>({kind:"piece",color,type,bornAtTurn:0});
+export const metamorph=(color:Color):Occupant=>({kind:"metamorph",color});
+export const targets=(moves:{f:number;r:number}[])=>moves.map(m=>idFrom(m.f,m.r)).sort();
+
+// An empty board with no piece cards, plus one mobile metamorph per side so the kingless win never fires by accident.
+export function emptyGame(turn:Color="white"):GameState{ const gs=initialGame(); for(const s of gs.board){ s.occupant=null; delete s.blueSymbol } gs.turn=turn; sq(gs,"a8").occupant=metamorph("white"); sq(gs,"h1").occupant=metamorph("black"); return gs }
+export function put(gs:GameState,layout:Partial<Record<SquareId,Occupant>>,cards:Partial<Record<SquareId,PieceType>>={}){ for(const [id,o] of Object.entries(layout)) sq(gs,id as SquareId).occupant=o!; for(const [id,t] of Object.entries(cards)) sq(gs,id as SquareId).blueSymbol=t; return gs }
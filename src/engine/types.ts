@@ -0,0 +1,18 @@
+export type FileLetter = "a"|"b"|"c"|"d"|"e"|"f"|"g"|"h"; export type RankNum = 1|2|3|4|5|6|7|8; export type Color = "white"|"black"; export type PieceType = "K"|"Q"|"R"|"B"|"N"|"P"; export type SquareId = `${FileLetter}${RankNum}`;
+
+export type Occupant={kind:"metamorph";color:Color}|{kind:"piece";color:Color;type:PieceType;bornAtTurn:number;mustReturn?:boolean;returnByTurn?:number}|null;
+export type PieceOccupant=Extract<Occupant,{kind:"piece"}>; export type MetamorphOccupant=Extract<Occupant,{kind:"metamorph"}>;
+export interface Square{ id:SquareId; file:number; rank:number; blueSymbol?:PieceType; occupant:Occupant }
+export interface ChrysalisStock{ K:number;Q:number;R:number;B:number;N:number;P:number }
+export type AiLevel='Easy'|'Medium'|'Hard'|'Expert';
+export interface AiSettings{ mode:'human'|'cpu'|'online'; cpuPlays:Color; level:AiLevel; thinkMs:number }
+export interface GameState{ board:Square[]; turn:Color; moveNumber:number; stock:{white:ChrysalisStock;black:ChrysalisStock}; quietus:{white:ChrysalisStock;black:ChrysalisStock}; kingOnBoard:{white:boolean;black:boolean}; kingProtectedUntil:{white:number|null;black:number|null}; selected?:SquareId|null; promotion?:{square:SquareId;color:Color}|null; message?:string|null; winner?:Color|null; winReason?:string|null; ai:AiSettings; clock?:ClockState|null; lastMove?:{from:SquareId;to:SquareId;by:Color}|null; setup:{seed:number|null;layout:string}; record:GameRecord; rules:RuleOptions }
+export type TimeControlKind='sudden'|'increment'|'delay';
+export interface TimeControl{ kind:TimeControlKind; baseMs:number; extraMs:number }
+export interface ClockState{ control:TimeControl; remaining:{white:number;black:number}; running:Color|null; since:number|null }
+export interface RuleOptions{ metamorphia:[number,number]; promotionGrace:number; kingProtectionTurns:number; kingCardRule:boolean }
+export interface MoveAction{ from:SquareId; to:SquareId; promotion?:PieceType }
+export interface GameRecord{ start:string|null; moves:MoveAction[] }
+export type Coord={f:number;r:number};
+export type WinReason="king captured"|"checkmate"|"no king + no mobile pawns/metamorphs"|"flag fall";
+export interface WinResult{ winner:Color; reason:WinReason }
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { encodePosition, initialGame, performMove } from "../engine";
+import { createHub } from "./hub";
+import { parseClientMessage } from "./protocol";
+import type { ClientMessage, ServerMessage } from "./protocol";
+import { needsResync } from "./session";
+import { localTransport } from "./transport";
+
+function peer(hub:ReturnType<typeof createHub>){ const inbox:ServerMessage[]=[]; const conn=hub.connect(m=>inbox.push(m)); return {inbox,conn,send:(m:ClientMessage)=>conn.receive(m),last:()=>inbox[inbox.length-1],state:()=>[...inbox].reverse().find(m=>m.type==="state"||m.type==="joined") as Extract<ServerMessage,{state:unknown}>} }
+function room(){ let n=0; const hub=createHub({roomCode:()=>"ROOM1",token:()=>`t${++n}`}); const white=peer(hub), black=peer(hub); white.send({type:"create",color:"white",name:"Ann",seed:7}); black.send({type:"join",room:"room1",name:"Bo"}); return {hub,white,black} }
+
+describe("game hub", ()=>{
+  it("seats the creator and the first player to join", ()=>{
+    const {white,black}=room();
+    expect(white.inbox[0]).toMatchObject({type:"joined",room:"ROOM1",color:"white",token:"t1"});
+    expect(black.inbox[0]).toMatchObject({type:"joined",color:"black",token:"t2",players:{white:{name:"Ann",connected:true},black:{name:"Bo",connected:true}}});
+    expect(encodePosition(black.state().state)).toBe(encodePosition(initialGame({seed:7})));
+  });
+
+  it("checks every move with the rules and sends the result to both players", ()=>{
+    const {white,black}=room();
+    black.send({type:"move",from:"d2",to:"d3",moveNumber:1});
+    expect(black.last()).toEqual({type:"rejected",reason:"It is not your turn."});
+    white.send({type:"move",from:"e7",to:"e5",moveNumber:1});
+    expect(white.last()).toEqual({type:"rejected",reason:"Metamorphs only step one square straight ahead."});
+    white.send({type:"move",from:"e7",to:"e6",moveNumber:1});
+    const expected=encodePosition(performMove(initialGame({seed:7}),"e7","e6"));
+    expect(encodePosition(white.state().state)).toBe(expected); expect(encodePosition(black.state().state)).toBe(expected);
+    black.send({type:"move",from:"d2",to:"d3",moveNumber:1});
+    expect(black.inbox.slice(-2)).toEqual([{type:"rejected",reason:"Your board is out of date."},{type:"state",state:white.state().state}]);
+  });
+
+  it("rejects moves naming squares that do not exist instead of throwing", ()=>{
+    const {white}=room();
+    for(const [from,to] of [[["e7"],"e6"],["e7",{}],["z9","e6"],["e7",7]] as any[]) expect(()=>white.send({type:"move",from,to,moveNumber:1})).not.toThrow();
+    expect(white.inbox.slice(-4)).toEqual(Array(4).fill({type:"rejected",reason:"Unknown square."}));
+    expect(white.state().state.record.moves).toHaveLength(0);
+  });
+
+  it("ends the game on resignation or an accepted draw", ()=>{
+    const {white,black}=room();
+    black.send({type:"answerDraw",accept:true});
+    expect(black.last()).toEqual({type:"rejected",reason:"There is no draw offer to answer."});
+    white.send({type:"offerDraw"});
+    expect(black.last()).toEqual({type:"draw",offeredBy:"white"});
+    black.send({type:"answerDraw",accept:false});
+    expect(white.last()).toEqual({type:"draw",offeredBy:null});
+    white.send({type:"offerDraw"}); black.send({type:"answerDraw",accept:true});
+    expect(white.state().state).toMatchObject({winner:null,winReason:"draw agreed"});
+    white.send({type:"resign"});
+    expect(white.last()).toEqual({type:"rejected",reason:"The game is over."});
+    const other=room(); other.black.send({type:"resign"});
+    expect(other.white.state().state).toMatchObject({winner:"white",winReason:"resignation"});
+  });
+
+  it("lets a player reconnect to their seat and resync, but keeps strangers out", ()=>{
+    const {hub,white,black}=room();
+    black.conn.close();
+    expect(white.last()).toMatchObject({type:"players",players:{black:{name:"Bo",connected:false}}});
+    const stranger=peer(hub); stranger.send({type:"join",room:"ROOM1"});
+    expect(stranger.last()).toEqual({type:"rejected",reason:"That room already has two players."});
+    const back=peer(hub); back.send({type:"join",room:"ROOM1",token:"t2"});
+    expect(back.inbox[0]).toMatchObject({type:"joined",color:"black",players:{black:{name:"Bo",connected:true}}});
+    back.send({type:"resync"});
+    expect(back.inbox.slice(-3).map(m=>m.type)).toEqual(["state","players","draw"]);
+  });
+
+  it("keeps the clock and calls a flag fall on the next message", ()=>{
+    let t=0; const hub=createHub({roomCode:()=>"ROOM3",now:()=>t}), white=peer(hub), black=peer(hub);
+    white.send({type:"create",color:"white",seed:7,clock:{kind:"increment",baseMs:5000,extraMs:1000}});
+    t=500; expect(white.state().state.clock?.running).toBeNull();
+    black.send({type:"join",room:"ROOM3"});
+    expect(white.state().state.clock).toMatchObject({running:"white",since:500});
+    t=2000; white.send({type:"move",from:"e7",to:"e6",moveNumber:1});
+    t=4000; black.send({type:"move",from:"d2",to:"d3",moveNumber:2});
+    expect(white.state().state.clock).toMatchObject({running:"white",remaining:{white:4500,black:4000}});
+    t=8500; black.send({type:"resync"});
+    expect(white.state().state).toMatchObject({winner:"black",winReason:"flag fall",clock:{running:null,remaining:{white:0}}});
+  });
+
+  it("answers a bad join once, without the client resyncing into a loop", async ()=>{
+    const hub=createHub({roomCode:()=>"ROOM4"}), seen:string[]=[]; let sent:ClientMessage["type"]|null=null;
+    const send=(m:ClientMessage)=>{ sent=m.type; t.send(m) };
+    const t=localTransport(hub)({onMessage:m=>{ seen.push(m.type); if(needsResync(sent,m)&&seen.length<10) send({type:"resync"}) },onStatus:()=>{}});
+    send({type:"join",room:"NOPE"}); for(let i=0;i<20;i++) await new Promise(r=>setTimeout(r,0)); t.close();
+    expect(seen).toEqual(["rejected"]);
+  });
+
+  it("resyncs after a rejected move", ()=>{
+    expect(needsResync("move",{type:"rejected",reason:"Your board is out of date."})).toBe(true);
+    expect(needsResync("join",{type:"rejected",reason:"That room already has two players."})).toBe(false);
+  });
+
+  it("works over a transport", async ()=>{
+    const hub=createHub({roomCode:()=>"ROOM2"}), seen:string[]=[];
+    const t=localTransport(hub)({onMessage:m=>seen.push(m.type),onStatus:s=>seen.push(s)});
+    t.send({type:"create",color:"black"}); await new Promise(r=>setTimeout(r,0)); t.close();
+    expect(seen).toEqual(["open","joined","players","closed"]);
+    expect(hub.rooms.get("ROOM2")?.idleSince).not.toBeNull();
+  });
+});
+
+describe("client messages", ()=>{
+  it("are parsed strictly", ()=>{
+    expect(parseClientMessage('{"type":"move","from":"e7","to":"e6","moveNumber":1}')).toEqual({type:"move",from:"e7",to:"e6",moveNumber:1});
+    expect(parseClientMessage('{"type":"move","from":"e9","to":"e6","moveNumber":1}')).toBeNull();
+    expect(parseClientMessage('{"type":"move","from":["e7"],"to":"e6","moveNumber":1}')).toBeNull();
+    expect(parseClientMessage('{"type":"join","room":["ROOM1"]}')).toBeNull();
+    expect(parseClientMessage('{"type":"promote","piece":"K"}')).toEqual({type:"promote",piece:"K"});
+    expect(parseClientMessage('{"type":"resign","extra":1}')).toEqual({type:"resign"});
+    expect(parseClientMessage('{"type":"create","color":"white","clock":{"kind":"sudden","baseMs":-1,"extraMs":0}}')).toBeNull();
+    expect(parseClientMessage('{"type":"create","color":"white","seed":4294967295}')).toMatchObject({seed:4294967295});
+    for(const seed of [-1,4294967296,1.5]) expect(parseClientMessage(JSON.stringify({type:"create",color:"white",seed}))).toBeNull();
+    expect(parseClientMessage("nope")).toBeNull();
+  });
+});
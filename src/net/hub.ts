@@ -0,0 +1,49 @@
+import { DEFAULT_RULES, agreeDraw, applyPromotionChoice, flagFall, initialGame, isGameOver, parseLayoutCode, parseRulesCode, performMove, promotionAvailable, resignGame, resumeClock, startClock, tickClock } from "../engine";
+import type { BoardSetup, Color, GameState } from "../engine";
+import type { ClientMessage, Players, ServerMessage } from "./protocol";
+
+export interface Connection{ receive:(msg:ClientMessage)=>void; close:()=>void }
+interface Peer extends Connection{ send:(msg:ServerMessage)=>void }
+interface Seat{ token:string; name:string|null; connection:Peer|null }
+export interface Room{ code:string; state:GameState; seats:Record<Color,Seat|null>; drawOffer:Color|null; idleSince:number|null }
+export interface Hub{ connect:(send:(msg:ServerMessage)=>void)=>Connection; rooms:Map<string,Room> }
+
+const IDLE_MS=10*60*1000, CODE_LETTERS="ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const randomText=(n:number,letters=CODE_LETTERS)=>Array.from({length:n},()=>letters[Math.floor(Math.random()*letters.length)]).join("");
+const other=(c:Color):Color=>c==="white"?"black":"white";
+// Selections and messages are per client; the shared state carries only what the rules produced.
+const shared=(gs:GameState):GameState=>({...gs,selected:null,message:isGameOver(gs)?gs.message:null});
+
+function newGame(msg:Extract<ClientMessage,{type:"create"}>):GameState|string{ const rules=msg.rules?parseRulesCode(msg.rules):DEFAULT_RULES; if(!rules) return `Unknown rules "${msg.rules}".`; let setup:BoardSetup|undefined; if(msg.layout){ const layout=parseLayoutCode(msg.layout,rules.metamorphia); if(!layout) return "That layout code is not valid for these rules."; setup={layout} } else if(msg.seed!==undefined) setup={seed:msg.seed}; return shared({...initialGame(setup,rules),clock:msg.clock?startClock(msg.clock):null}) }
+
+// Rooms live in memory and are dropped once nobody has been connected for a while. The hub knows nothing about sockets: each transport wraps its peers as connections.
+export function createHub({roomCode=()=>randomText(5),token=()=>randomText(24),now=()=>Date.now()}:{roomCode?:()=>string;token?:()=>string;now?:()=>number}={}):Hub{ const rooms=new Map<string,Room>();
+  const players=(room:Room):Players=>({white:room.seats.white&&{name:room.seats.white.name,connected:!!room.seats.white.connection},black:room.seats.black&&{name:room.seats.black.name,connected:!!room.seats.black.connection}});
+  const broadcast=(room:Room,msg:ServerMessage)=>{ for(const seat of Object.values(room.seats)) seat?.connection?.send(msg) };
+  const sit=(room:Room,color:Color,conn:Peer,name:string|null,seatToken:string)=>{ const prev=room.seats[color]?.connection; room.seats[color]={token:seatToken,name,connection:conn}; room.idleSince=null; if(prev&&prev!==conn) prev.send({type:"error",message:"This seat was taken over by another connection."}) };
+  const prune=()=>{ for(const [code,r] of rooms) if(r.idleSince!==null&&now()-r.idleSince>IDLE_MS) rooms.delete(code) };
+
+  function connect(send:(msg:ServerMessage)=>void):Connection{ let room:Room|null=null, color:Color|null=null;
+    const conn:Peer={send,receive,close};
+    const reject=(reason:string)=>send({type:"rejected",reason});
+    const joined=(r:Room,c:Color)=>{ room=r; color=c; send({type:"joined",room:r.code,color:c,token:r.seats[c]!.token,state:r.state,players:players(r),drawOffer:r.drawOffer}); broadcast(r,{type:"players",players:players(r)}) };
+    // The hub keeps the only authoritative clock, started once both seats are taken; flags are noticed on the next message from either player.
+    const update=(next:GameState)=>{ room!.state=shared(tickClock(room!.state,next,now())); room!.drawOffer=null; broadcast(room!,{type:"state",state:room!.state}) };
+
+    function receive(msg:ClientMessage){
+      if(msg.type==="create"){ if(room) return reject("Leave this room before creating another."); prune(); const state=newGame(msg); if(typeof state==="string") return reject(state); let code=roomCode(); while(rooms.has(code)) code=roomCode(); const r:Room={code,state,seats:{white:null,black:null},drawOffer:null,idleSince:null}; rooms.set(code,r); sit(r,msg.color,conn,msg.name??null,token()); return joined(r,msg.color) }
+      if(msg.type==="join"){ if(room) return reject("Already in a room."); const r=rooms.get(msg.room.toUpperCase()); if(!r) return reject(`There is no room ${msg.room}.`); const mine=(["white","black"] as Color[]).find(c=>msg.token&&r.seats[c]?.token===msg.token); const c=mine??(["white","black"] as Color[]).find(c=>!r.seats[c]); if(!c) return reject("That room already has two players."); sit(r,c,conn,msg.name??r.seats[c]?.name??null,r.seats[c]?.token??token()); const waiting=r.state; if(r.seats.white&&r.seats.black) r.state=resumeClock(r.state,now()); joined(r,c); if(r.state!==waiting) broadcast(r,{type:"state",state:r.state}); return }
+      if(!room||!color) return reject("Create or join a room first."); if(room.seats[color]?.connection!==conn){ room=null; color=null; return reject("Create or join a room first.") }
+      if(flagFall(room.state,now())) update(room.state); const gs=room.state;
+      switch(msg.type){
+        case "resync": send({type:"state",state:gs}); send({type:"players",players:players(room)}); send({type:"draw",offeredBy:room.drawOffer}); return;
+        case "move": { if(![msg.from,msg.to].every(id=>typeof id==="string"&&gs.board.some(s=>s.id===id))) return reject("Unknown square."); if(isGameOver(gs)) return reject("The game is over."); if(gs.turn!==color) return reject("It is not your turn."); if(gs.promotion) return reject("Choose a promotion piece first."); if(msg.moveNumber!==gs.moveNumber){ reject("Your board is out of date."); send({type:"state",state:gs}); return } const next=performMove(gs,msg.from,msg.to); if(next.record.moves.length===gs.record.moves.length) return reject(next.message||"Illegal move."); return update(next) }
+        case "promote": { if(isGameOver(gs)) return reject("The game is over."); if(gs.promotion?.color!==color) return reject("There is no promotion to choose."); if(!promotionAvailable(gs,color,msg.piece)) return reject("You can't promote to that piece right now."); const next=applyPromotionChoice(gs,msg.piece); if(next.promotion) return reject(next.message||"You can't promote to that piece right now."); return update(next) }
+        case "resign": if(isGameOver(gs)) return reject("The game is over."); return update(resignGame(gs,color));
+        case "offerDraw": if(isGameOver(gs)) return reject("The game is over."); room.drawOffer=color; broadcast(room,{type:"draw",offeredBy:color}); return;
+        case "answerDraw": if(room.drawOffer!==other(color)) return reject("There is no draw offer to answer."); if(msg.accept) return update(agreeDraw(gs)); room.drawOffer=null; broadcast(room,{type:"draw",offeredBy:null}); return } }
+
+    function close(){ if(!room||!color) return; const r=room, seat=r.seats[color]; room=null; color=null; if(seat?.connection!==conn) return; seat.connection=null; broadcast(r,{type:"players",players:players(r)}); if(!r.seats.white?.connection&&!r.seats.black?.connection) r.idleSince=now() }
+    return conn }
+
+  return {connect,rooms} }
@@ -0,0 +1,42 @@
+import { validTimeControl } from "../engine";
+import type { Color, GameState, PieceType, SquareId, TimeControl } from "../engine";
+
+export interface SeatInfo{ name:string|null; connected:boolean }
+export type Players=Record<Color,SeatInfo|null>;
+
+export type ClientMessage=
+  |{type:"create";color:Color;name?:string;seed?:number;layout?:string;rules?:string;clock?:TimeControl}
+  |{type:"join";room:string;name?:string;token?:string}
+  |{type:"move";from:SquareId;to:SquareId;moveNumber:number}
+  |{type:"promote";piece:PieceType}
+  |{type:"resync"}
+  |{type:"resign"}
+  |{type:"offerDraw"}
+  |{type:"answerDraw";accept:boolean};
+
+export type ServerMessage=
+  |{type:"joined";room:string;color:Color;token:string;state:GameState;players:Players;drawOffer:Color|null}
+  |{type:"state";state:GameState}
+  |{type:"players";players:Players}
+  |{type:"draw";offeredBy:Color|null}
+  |{type:"rejected";reason:string}
+  |{type:"error";message:string};
+
+const SQUARE=/^[a-h][1-8]$/, PIECES=["K","Q","R","B","N","P"];
+const str=(v:unknown,max=40)=>typeof v==="string"&&v.length<=max;
+const square=(v:unknown)=>typeof v==="string"&&SQUARE.test(v);
+const optional=(v:unknown,check:(v:unknown)=>boolean)=>v===undefined||check(v);
+// Seeds use the same 32-bit range the client generates, so a room's game record re-imports.
+const isSeed=(v:unknown)=>Number.isInteger(v)&&(v as number)>=0&&(v as number)<=0xFFFFFFFF;
+const isColor=(v:unknown):v is Color=>v==="white"||v==="black";
+
+// The server reads every frame through this, so anything malformed is dropped before it can reach a room.
+export function parseClientMessage(text:string):ClientMessage|null{ let m:any; try{ m=JSON.parse(text) }catch{ return null } if(!m||typeof m!=="object") return null;
+  switch(m.type){
+    case "create": return isColor(m.color)&&optional(m.name,str)&&optional(m.seed,isSeed)&&optional(m.layout,v=>str(v,64))&&optional(m.rules,str)&&optional(m.clock,validTimeControl)?m:null;
+    case "join": return str(m.room,12)&&optional(m.name,str)&&optional(m.token,v=>str(v,64))?m:null;
+    case "move": return square(m.from)&&square(m.to)&&Number.isInteger(m.moveNumber)?m:null;
+    case "promote": return PIECES.includes(m.piece)?m:null;
+    case "answerDraw": return typeof m.accept==="boolean"?m:null;
+    case "resync": case "resign": case "offerDraw": return {type:m.type};
+    default: return null } }
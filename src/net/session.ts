@@ -0,0 +1,19 @@
+import type { Color } from "../engine";
+import type { ConnectionStatus } from "./transport";
+import type { ClientMessage, Players, ServerMessage } from "./protocol";
+
+export interface NetSession{ url:string; name:string; status:ConnectionStatus; room:string|null; color:Color|null; token:string|null; players:Players; drawOffer:Color|null; notice:string|null }
+
+export const startSession=(url:string,name:string):NetSession=>({url,name,status:"connecting",room:null,color:null,token:null,players:{white:null,black:null},drawOffer:null,notice:null});
+
+// A rejected move or promotion means the board may be out of date; any other rejection (a bad room code, a full room) is final, and answering it with a resync would only be rejected again.
+export const needsResync=(sent:ClientMessage["type"]|null,msg:ServerMessage)=>msg.type==="rejected"&&(sent==="move"||sent==="promote");
+
+// Folds server messages into what the panel shows; game states themselves go to the board's history.
+export function sessionUpdate(s:NetSession,msg:ServerMessage):NetSession{ switch(msg.type){
+  case "joined": return {...s,room:msg.room,color:msg.color,token:msg.token,players:msg.players,drawOffer:msg.drawOffer,notice:null};
+  case "players": return {...s,players:msg.players};
+  case "draw": return {...s,drawOffer:msg.offeredBy};
+  case "state": return {...s,drawOffer:null,notice:null};
+  case "rejected": return {...s,notice:msg.reason};
+  case "error": return {...s,notice:msg.message} } }
@@ -0,0 +1,16 @@
+import type { Hub } from "./hub";
+import type { ClientMessage, ServerMessage } from "./protocol";
+
+export type ConnectionStatus="connecting"|"open"|"closed";
+export interface TransportEvents{ onMessage:(msg:ServerMessage)=>void; onStatus:(status:ConnectionStatus)=>void }
+export interface Transport{ send:(msg:ClientMessage)=>void; close:()=>void }
+// A transport is opened with the callbacks it reports to, so the game client never depends on how messages travel.
+export type TransportFactory=(events:TransportEvents)=>Transport;
+
+export const webSocketTransport=(url:string):TransportFactory=>({onMessage,onStatus})=>{ const ws=new WebSocket(url), queue:string[]=[]; onStatus("connecting");
+  ws.onopen=()=>{ onStatus("open"); for(const text of queue.splice(0)) ws.send(text) }; ws.onclose=()=>onStatus("closed"); ws.onmessage=e=>{ try{ onMessage(JSON.parse(String(e.data))) }catch{ /* ignore frames that are not JSON */ } };
+  return {send:msg=>{ const text=JSON.stringify(msg); if(ws.readyState===WebSocket.OPEN) ws.send(text); else queue.push(text) },close:()=>ws.close()} };
+
+// Talks to a hub in the same process; messages are delivered asynchronously, like over a socket.
+export const localTransport=(hub:Hub):TransportFactory=>({onMessage,onStatus})=>{ let open=true; const conn=hub.connect(msg=>queueMicrotask(()=>{ if(open) onMessage(msg) })); queueMicrotask(()=>onStatus("open"));
+  return {send:msg=>queueMicrotask(()=>{ if(open) conn.receive(msg) }),close:()=>{ if(!open) return; open=false; conn.close(); onStatus("closed") }} };
@@ -0,0 +1,15 @@
+import { TIME_CONTROL_KINDS, timeControlLabel } from "../engine";
+import type { TimeControl, TimeControlKind } from "../engine";
+
+const select="bg-neutral-900 border border-neutral-600 rounded px-2 py-1 disabled:opacity-40";
+const KIND_NAMES:Record<TimeControlKind,string>={sudden:"Sudden death",increment:"Increment",delay:"Delay"};
+const MINUTES=[1,3,5,10,15,30,60,90], EXTRA_SECONDS=[1,2,3,5,10,15,30];
+const label=(tc:TimeControl|null)=>tc?timeControlLabel(tc):"none";
+
+export default function ClockPanel({control,current,onChange}:{control:TimeControl|null;current:TimeControl|null;onChange:(control:TimeControl|null)=>void}){ const pending=label(control)!==label(current), tc=control??{kind:"sudden",baseMs:5*60000,extraMs:0};
+  return (<div className="p-3 rounded-xl bg-neutral-800/70 border border-neutral-700 space-y-2 text-sm"><div className="font-semibold">Clock</div>
+    <label className="flex items-center justify-between gap-2"><span>Time control</span><select className={select} value={control?.kind??"none"} onChange={e=>{ const kind=e.target.value as TimeControlKind|"none"; onChange(kind==="none"?null:{...tc,kind,extraMs:kind==="sudden"?0:tc.extraMs||5000}) }}><option value="none">No clock</option>{TIME_CONTROL_KINDS.map(k=>(<option key={k} value={k}>{KIND_NAMES[k]}</option>))}</select></label>
+    {control&&<label className="flex items-center justify-between gap-2"><span>Time per player</span><select className={select} value={control.baseMs} onChange={e=>onChange({...control,baseMs:Number(e.target.value)})}>{MINUTES.map(m=>(<option key={m} value={m*60000}>{m} min</option>))}</select></label>}
+    {control&&control.kind!=="sudden"&&<label className="flex items-center justify-between gap-2"><span>{control.kind==="increment"?"Added per move":"Delay per move"}</span><select className={select} value={control.extraMs} onChange={e=>onChange({...control,extraMs:Number(e.target.value)})}>{EXTRA_SECONDS.map(s=>(<option key={s} value={s*1000}>{s} s</option>))}</select></label>}
+    {pending&&<div className="text-xs opacity-70">Applies from the next new game.</div>}
+  </div>) }
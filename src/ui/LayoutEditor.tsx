@@ -0,0 +1,14 @@
+import { useState } from "react";
+import { FILES, PIECE_TYPES, deckCounts, layoutCounts, layoutSquares, parseLayoutCode, randomSeed, shuffledLayout, validateLayout } from "../engine";
+import type { PieceType } from "../engine";
+import { BlueSymbol, pieceGlyph, woodSquareBg } from "./art";
+
+export default function LayoutEditor({initial,band,onStart,onClose}:{initial:string;band:[number,number];onStart:(layout:PieceType[])=>void;onClose:()=>void}){ const size=layoutSquares(band).length, deck=deckCounts(band), ranks=Array.from({length:band[1]-band[0]+1},(_,i)=>band[0]+i); const [cards,setCards]=useState<(PieceType|null)[]>(()=>parseLayoutCode(initial,band)??Array(size).fill(null)); const [brush,setBrush]=useState<PieceType|null>("P"); const counts=layoutCounts(cards), error=validateLayout(cards,band);
+  const paint=(i:number)=>setCards(c=>c.map((t,j)=>j===i?brush:t));
+  return (<div className="fixed inset-0 z-40 bg-black/70 backdrop-blur-sm flex items-center justify-center px-4" onClick={onClose}><div className="bg-neutral-900 border border-neutral-700 rounded-2xl shadow-2xl p-6 max-w-3xl" onClick={e=>e.stopPropagation()}>
+    <h2 className="text-2xl font-semibold mb-2">Layout editor</h2><p className="text-sm opacity-80 mb-4">Pick a piece card and click Metamorphia squares (ranks {band[0]}–{band[1]}) to place it. Each counter shows how many cards of that type the layout needs.</p>
+    <div className="flex gap-2 mb-4 flex-wrap">{PIECE_TYPES.map(t=>(<button key={t} onClick={()=>setBrush(t)} className={`px-3 py-1 rounded-xl border ${brush===t?"bg-neutral-200 text-neutral-900 border-neutral-200":"border-neutral-600"} ${counts[t]!==deck[t]?"text-yellow-300":""}`}><span className="text-xl mr-1">{pieceGlyph(t)}</span><span className="text-xs">{counts[t]}/{deck[t]}</span></button>))}<button onClick={()=>setBrush(null)} className={`px-3 py-1 rounded-xl border ${brush===null?"bg-neutral-200 text-neutral-900 border-neutral-200":"border-neutral-600"}`}>Erase</button></div>
+    <div className="grid grid-cols-8 select-none rounded-xl overflow-hidden w-fit" style={{border:"4px solid #3b2f2f"}}>{ranks.map(r=>FILES.map((file,f)=>{ const i=(r-band[0])*8+f, t=cards[i]; return (<div key={`${file}${r}`} onClick={()=>paint(i)} title={`${file}${r}`} className="relative w-14 h-14 cursor-pointer" style={{background:woodSquareBg(f,r)}}>{t&&<BlueSymbol type={t}/>}</div>) }))}</div>
+    {error&&<div className="mt-3 text-xs bg-yellow-500/20 text-yellow-200 px-2 py-1 rounded">{error}</div>}
+    <div className="mt-4 flex gap-2 justify-end"><button onClick={()=>setCards(Array(size).fill(null))} className="px-3 py-2 rounded-2xl border border-neutral-600">Clear</button><button onClick={()=>setCards(shuffledLayout(randomSeed(),band))} className="px-3 py-2 rounded-2xl border border-neutral-600">Shuffle</button><button onClick={onClose} className="px-3 py-2 rounded-2xl border border-neutral-600">Cancel</button><button disabled={!!error} onClick={()=>onStart(cards as PieceType[])} className="px-3 py-2 rounded-2xl bg-neutral-200 text-neutral-900 font-semibold shadow disabled:opacity-40">Start game</button></div>
+  </div></div>) }
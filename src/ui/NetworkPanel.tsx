@@ -0,0 +1,28 @@
+import { useState } from "react";
+import type { Color } from "../engine";
+import type { NetSession } from "../net/session";
+
+const STATUS_DOT={connecting:"bg-yellow-400",open:"bg-emerald-400",closed:"bg-rose-500"};
+const defaultServer=()=>`ws://${typeof location!=="undefined"&&location.hostname?location.hostname:"localhost"}:8787`;
+
+export interface NetworkActions{ create:(url:string,name:string,color:Color)=>void; join:(url:string,name:string,room:string)=>void; leave:()=>void; reconnect:()=>void; resync:()=>void; resign:()=>void; offerDraw:()=>void; answerDraw:(accept:boolean)=>void }
+
+export default function NetworkPanel({net,gameOver,actions}:{net:NetSession|null;gameOver:boolean;actions:NetworkActions}){ const [url,setUrl]=useState(()=>net?.url??defaultServer()); const [name,setName]=useState(net?.name??""); const [color,setColor]=useState<Color>("white"); const [code,setCode]=useState("");
+  const btn="px-2 py-1 rounded border border-neutral-600 disabled:opacity-40", field="min-w-0 flex-1 bg-neutral-900 border border-neutral-600 rounded px-2 py-1";
+  if(!net?.room) return (<div className="space-y-2 text-sm">
+    <label className="flex items-center gap-2"><span className="w-12 opacity-80">Server</span><input value={url} onChange={e=>setUrl(e.target.value)} className={field}/></label>
+    <label className="flex items-center gap-2"><span className="w-12 opacity-80">Name</span><input value={name} onChange={e=>setName(e.target.value)} maxLength={40} className={field}/></label>
+    <div className="flex gap-2"><select value={color} onChange={e=>setColor(e.target.value as Color)} className="bg-neutral-900 border border-neutral-600 rounded px-2 py-1"><option value="white">White</option><option value="black">Black</option></select><button onClick={()=>actions.create(url,name,color)} className={`flex-1 ${btn}`}>Create room</button></div>
+    <div className="flex gap-2"><input value={code} onChange={e=>setCode(e.target.value.toUpperCase())} placeholder="Room code" maxLength={12} className={field}/><button disabled={!code.trim()} onClick={()=>actions.join(url,name,code.trim())} className={btn}>Join</button></div>
+    {net&&<div className="flex items-center gap-2 text-xs opacity-80"><span className={`w-2 h-2 rounded-full ${STATUS_DOT[net.status]}`}/>{net.status==="closed"?"Could not reach the server.":"Connecting…"}</div>}
+    {net?.notice&&<div className="text-xs bg-yellow-500/20 text-yellow-200 px-2 py-1 rounded">{net.notice}</div>}
+  </div>);
+  const offerFromThem=net.drawOffer&&net.drawOffer!==net.color;
+  return (<div className="space-y-2 text-sm">
+    <div className="flex items-center justify-between"><span>Room <span className="font-mono font-semibold select-all">{net.room}</span></span><span className="flex items-center gap-1 text-xs opacity-80"><span className={`w-2 h-2 rounded-full ${STATUS_DOT[net.status]}`}/>{net.status}</span></div>
+    <ul className="space-y-0.5">{(["white","black"] as Color[]).map(c=>{ const seat=net.players[c]; return (<li key={c} className="flex items-center gap-2"><span className={`w-2 h-2 rounded-full ${seat?.connected?"bg-emerald-400":"bg-neutral-600"}`}/><span className="capitalize w-12">{c}</span><span className="truncate opacity-80">{seat?seat.name||"Anonymous":"waiting…"}</span>{c===net.color&&<span className="ml-auto text-xs font-semibold">you</span>}</li>) })}</ul>
+    {offerFromThem&&!gameOver&&<div className="flex items-center gap-2 text-xs"><span className="flex-1">Your opponent offers a draw.</span><button onClick={()=>actions.answerDraw(true)} className={btn}>Accept</button><button onClick={()=>actions.answerDraw(false)} className={btn}>Decline</button></div>}
+    {net.drawOffer===net.color&&!gameOver&&<div className="text-xs opacity-80">Draw offered, waiting for an answer.</div>}
+    {net.notice&&<div className="text-xs bg-yellow-500/20 text-yellow-200 px-2 py-1 rounded">{net.notice}</div>}
+    <div className="flex flex-wrap gap-1">{net.status==="closed"?<button onClick={actions.reconnect} className={btn}>Reconnect</button>:<button onClick={actions.resync} className={btn}>Resync</button>}<button disabled={gameOver||net.status!=="open"||!!net.drawOffer} onClick={actions.offerDraw} className={btn}>Offer draw</button><button disabled={gameOver||net.status!=="open"} onClick={actions.resign} className={btn}>Resign</button><button onClick={actions.leave} className={btn}>Leave</button></div>
+  </div>) }
@@ -0,0 +1,13 @@
+import { useState } from "react";
+import { encodePosition, exportRecord, importGame } from "../engine";
+import type { GameState } from "../engine";
+
+function CopyField({label,value}:{label:string;value:string}){ const [copied,setCopied]=useState(false); return (<label className="block text-sm"><div className="flex items-center justify-between mb-1"><span className="font-semibold">{label}</span><button onClick={()=>navigator.clipboard?.writeText(value).then(()=>setCopied(true))} className="px-2 py-0.5 rounded border border-neutral-600 text-xs">{copied?"Copied":"Copy"}</button></div><textarea readOnly value={value} rows={label==="Position"?2:8} className="w-full font-mono text-xs bg-neutral-950 border border-neutral-700 rounded p-2" onFocus={e=>e.target.select()}/></label>) }
+
+export default function RecordDialog({mode,gs,onLoad,onClose}:{mode:"export"|"import";gs:GameState;onLoad:(state:GameState)=>void;onClose:()=>void}){ const [text,setText]=useState(""); const [error,setError]=useState<string|null>(null);
+  const load=()=>{ const r=importGame(text); if(!r.ok){ setError(r.error); return } onLoad(r.state) };
+  return (<div className="fixed inset-0 z-40 bg-black/70 backdrop-blur-sm flex items-center justify-center px-4" onClick={onClose}><div className="bg-neutral-900 border border-neutral-700 rounded-2xl shadow-2xl p-6 w-full max-w-2xl space-y-3" onClick={e=>e.stopPropagation()}>
+    {mode==="export"?(<><h2 className="text-2xl font-semibold">Export game</h2><CopyField label="Game record" value={exportRecord(gs)}/><CopyField label="Position" value={encodePosition(gs)}/></>)
+    :(<><h2 className="text-2xl font-semibold">Import game</h2><p className="text-sm opacity-80">Paste a game record (starting with its [Tags]) or a single position code.</p><textarea value={text} onChange={e=>{ setText(e.target.value); setError(null) }} rows={8} className="w-full font-mono text-xs bg-neutral-950 border border-neutral-700 rounded p-2"/>{error&&<div className="text-xs bg-yellow-500/20 text-yellow-200 px-2 py-1 rounded">{error}</div>}</>)}
+    <div className="flex gap-2 justify-end"><button onClick={onClose} className="px-3 py-2 rounded-2xl border border-neutral-600">Close</button>{mode==="import"&&<button disabled={!text.trim()} onClick={load} className="px-3 py-2 rounded-2xl bg-neutral-200 text-neutral-900 font-semibold shadow disabled:opacity-40">Load</button>}</div>
+  </div></div>) }
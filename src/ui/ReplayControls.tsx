@@ -0,0 +1,13 @@
+import { useEffect } from "react";
+import type { CountChange } from "../engine";
+
+const POOL_LABEL={stock:"Chrysalis",quietus:"Quietus"};
+
+export default function ReplayControls({at,total,san,changes,onSeek,onExit}:{at:number;total:number;san:string|null;changes:CountChange[];onSeek:(at:number)=>void;onExit:()=>void}){ const seek=(n:number)=>onSeek(Math.max(0,Math.min(total,n)));
+  useEffect(()=>{ const onKey=(e:KeyboardEvent)=>{ if(e.key==="ArrowLeft") seek(at-1); else if(e.key==="ArrowRight") seek(at+1); else if(e.key==="Home") seek(0); else if(e.key==="End") seek(total); else if(e.key==="Escape") onExit() }; window.addEventListener("keydown",onKey); return ()=>window.removeEventListener("keydown",onKey) });
+  const btn="px-2 py-1 rounded border border-neutral-600 disabled:opacity-40";
+  return (<div className="p-3 rounded-xl bg-sky-900/40 border border-sky-700/60 space-y-2 text-sm"><div className="flex items-center justify-between"><span className="font-semibold">Replay</span><button onClick={onExit} className="text-xs underline opacity-80">Back to game</button></div>
+    <div className="flex gap-1"><button className={btn} disabled={!at} onClick={()=>seek(0)} aria-label="First move">⏮</button><button className={btn} disabled={!at} onClick={()=>seek(at-1)} aria-label="Previous move">◀</button><button className={btn} disabled={at===total} onClick={()=>seek(at+1)} aria-label="Next move">▶</button><button className={btn} disabled={at===total} onClick={()=>seek(total)} aria-label="Last move">⏭</button></div>
+    <div className="opacity-80">{at?<>Move {at} / {total}: <span className="font-mono">{san}</span></>:`Start position (${total} moves)`}</div>
+    {changes.length>0&&<ul className="text-xs space-y-0.5">{changes.map(c=>(<li key={`${c.pool}-${c.color}-${c.type}`} className={c.delta>0?"text-emerald-300":"text-rose-300"}><span className="capitalize">{c.color}</span> {POOL_LABEL[c.pool]} {c.type} {c.delta>0?`+${c.delta}`:`−${-c.delta}`}</li>))}</ul>}
+  </div>) }
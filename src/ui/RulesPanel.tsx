@@ -0,0 +1,13 @@
+import { METAMORPHIA_BANDS, rulesCode } from "../engine";
+import type { RuleOptions } from "../engine";
+
+const select="bg-neutral-900 border border-neutral-600 rounded px-2 py-1";
+
+export default function RulesPanel({rules,current,onChange}:{rules:RuleOptions;current:RuleOptions;onChange:(rules:RuleOptions)=>void}){ const pending=rulesCode(rules)!==rulesCode(current);
+  return (<div className="p-3 rounded-xl bg-neutral-800/70 border border-neutral-700 space-y-2 text-sm"><div className="font-semibold">Variant rules</div>
+    <label className="flex items-center justify-between gap-2"><span>Metamorphia</span><select className={select} value={rules.metamorphia.join("-")} onChange={e=>onChange({...rules,metamorphia:e.target.value.split("-").map(Number) as [number,number]})}>{METAMORPHIA_BANDS.map(b=>(<option key={b.join("-")} value={b.join("-")}>Ranks {b[0]}–{b[1]}</option>))}</select></label>
+    <label className="flex items-center justify-between gap-2"><span>Promotion grace</span><select className={select} value={rules.promotionGrace} onChange={e=>onChange({...rules,promotionGrace:Number(e.target.value)})}>{[1,2,3].map(n=>(<option key={n} value={n}>{n} move{n>1?"s":""}</option>))}</select></label>
+    <label className="flex items-center justify-between gap-2"><span>King protection</span><select className={select} value={rules.kingProtectionTurns} onChange={e=>onChange({...rules,kingProtectionTurns:Number(e.target.value)})}>{[0,1,2,3].map(n=>(<option key={n} value={n}>{n?`${n} turn${n>1?"s":""}`:"None"}</option>))}</select></label>
+    <label className="flex items-center justify-between gap-2"><span>Metamorphs avoid king cards</span><input type="checkbox" checked={rules.kingCardRule} onChange={e=>onChange({...rules,kingCardRule:e.target.checked})}/></label>
+    {pending&&<div className="text-xs opacity-70">Applies from the next new game.</div>}
+  </div>) }
@@ -0,0 +1,15 @@
+import { useState } from "react";
+import { deleteGame, listSaves, loadGame, saveGame } from "../engine";
+import type { AiSettings, GameState, KeyValueStore } from "../engine";
+
+export default function SavesDialog({store,gs,ai,canLoad,onLoad,onClose}:{store:KeyValueStore;gs:GameState;ai:AiSettings;canLoad:boolean;onLoad:(state:GameState)=>void;onClose:()=>void}){ const [name,setName]=useState(""); const [saves,setSaves]=useState(()=>listSaves(store)); const [error,setError]=useState<string|null>(null);
+  const save=()=>{ const err=saveGame(store,name,gs); setError(err); if(!err){ setName(""); setSaves(listSaves(store)) } };
+  const load=(id:string)=>{ const state=loadGame(store,id,ai); if(!state){ setError("That save could not be read."); return } onLoad(state) };
+  const remove=(id:string)=>{ setError(deleteGame(store,id)); setSaves(listSaves(store)) };
+  return (<div className="fixed inset-0 z-40 bg-black/70 backdrop-blur-sm flex items-center justify-center px-4" onClick={onClose}><div className="bg-neutral-900 border border-neutral-700 rounded-2xl shadow-2xl p-6 w-full max-w-2xl space-y-3" onClick={e=>e.stopPropagation()}>
+    <h2 className="text-2xl font-semibold">Saved games</h2>
+    <div className="flex gap-2"><input value={name} onChange={e=>{ setName(e.target.value); setError(null) }} onKeyDown={e=>{ if(e.key==="Enter") save() }} placeholder="Name this game" maxLength={60} className="min-w-0 flex-1 bg-neutral-950 border border-neutral-700 rounded px-2 py-1 text-sm"/><button disabled={!name.trim()} onClick={save} className="px-3 py-1 rounded-2xl bg-neutral-200 text-neutral-900 font-semibold shadow text-sm disabled:opacity-40">Save</button></div>
+    {error&&<div className="text-xs bg-yellow-500/20 text-yellow-200 px-2 py-1 rounded">{error}</div>}
+    <div className="max-h-80 overflow-auto"><table className="w-full text-sm"><thead className="text-left opacity-70"><tr><th className="font-normal py-1">Name</th><th className="font-normal">Saved</th><th className="font-normal">Result</th><th className="font-normal text-right">Moves</th><th/></tr></thead><tbody>{saves.map(s=>(<tr key={s.id} className="border-t border-neutral-800"><td className="py-1 pr-2 break-all">{s.name}</td><td className="pr-2 whitespace-nowrap opacity-80">{new Date(s.savedAt).toLocaleString()}</td><td className="pr-2"><span className="capitalize">{s.result}</span>{s.winReason&&<span className="opacity-70"> · {s.winReason}</span>}</td><td className="pr-2 text-right tabular-nums">{s.moves}</td><td className="whitespace-nowrap text-right"><button disabled={!canLoad} onClick={()=>load(s.id)} className="px-2 py-0.5 rounded border border-neutral-600 text-xs disabled:opacity-40">Load</button> <button onClick={()=>remove(s.id)} className="px-2 py-0.5 rounded border border-neutral-600 text-xs">Delete</button></td></tr>))}{!saves.length&&<tr><td colSpan={5} className="py-2 opacity-60">No saved games yet.</td></tr>}</tbody></table></div>
+    <div className="flex justify-end"><button onClick={onClose} className="px-3 py-2 rounded-2xl border border-neutral-600">Close</button></div>
+  </div></div>) }
@@ -0,0 +1,6 @@
+import type { PieceType } from "../engine";
+
+export const GLYPH: Record<PieceType,string> = {K:"♚",Q:"♛",R:"♜",B:"♝",N:"♞",P:"♟"}; export const pieceGlyph=(t:PieceType)=>GLYPH[t];
+const woodColor=(f:number,r:number)=>((f+r)%2?"#8C6B3E":"#E6CBA8"); const shade=(hex:string,d:number)=>{const n=parseInt(hex.slice(1),16);let r=(n>>16)&255,g=(n>>8)&255,b=n&255;const s=(x:number)=>Math.max(0,Math.min(255,x+Math.round(255*d/100)));r=s(r);g=s(g);b=s(b);return `#${((1<<24)+(r<<16)+(g<<8)+b).toString(16).slice(1)}`}; export const woodSquareBg=(f:number,r:number)=>{const base=woodColor(f,r);return `linear-gradient(135deg, ${shade(base,8)} 0%, ${base} 55%, ${shade(base,-6)} 100%)`};
+
+export const BlueSymbol=({type}:{type:PieceType})=> (<svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100"><text x="50" y="78" textAnchor="middle" fontSize="84" fill="none" stroke="#7DB1BF" strokeWidth="3" fontFamily="'Noto Chess','DejaVu Sans',serif">{pieceGlyph(type)}</text></svg>);
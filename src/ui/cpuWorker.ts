@@ -0,0 +1,4 @@
+import type { GameState } from "../engine";
+
+// Runs pickAiMove in a Web Worker so the board stays responsive; the returned function abandons the search.
+export function requestCpuMove(gs:GameState,onMove:(next:GameState)=>void){ const worker=new Worker(new URL("../engine/ai.worker.ts",import.meta.url),{type:"module"}); worker.onmessage=(e:MessageEvent<GameState>)=>{ worker.terminate(); onMove(e.data) }; worker.postMessage(gs); return ()=>worker.terminate() }